@@ -0,0 +1,106 @@
+import type { Grant, ObjectCannedACL, Owner } from "@aws-sdk/client-s3";
+
+const ALL_USERS = "http://acs.amazonaws.com/groups/global/AllUsers";
+const AUTHENTICATED_USERS =
+  "http://acs.amazonaws.com/groups/global/AuthenticatedUsers";
+
+/**
+ * Translation between POSIX permission bits and S3 canned ACLs
+ */
+export interface AclMapping {
+  /** Canned ACL applied by chmod for a mode */
+  toAcl(mode: number): ObjectCannedACL;
+  /** Mode reported by stat for an object's canned ACL */
+  toMode(acl: ObjectCannedACL): number;
+}
+
+/**
+ * Single permission granted on an object
+ */
+export interface S3AclGrant {
+  /** Canonical user ID, email address or group URI */
+  grantee: string;
+  /** FULL_CONTROL, READ, WRITE, READ_ACP or WRITE_ACP */
+  permission: string;
+}
+
+/**
+ * Access control list of an object
+ */
+export interface S3Acl {
+  /** Canned ACL the grants correspond to, undefined for custom grants */
+  canned?: ObjectCannedACL;
+  /** Canonical user ID of the object owner */
+  owner?: string;
+  grants: S3AclGrant[];
+}
+
+/**
+ * Default mapping - "other" bits decide between private and public ACLs
+ *
+ * World-writable modes map to public-read-write, world-readable ones to
+ * public-read and everything else to private.
+ */
+export const defaultAclMapping: AclMapping = {
+  toAcl(mode) {
+    if (mode & 0o002) {
+      return "public-read-write";
+    }
+    return mode & 0o004 ? "public-read" : "private";
+  },
+
+  toMode(acl) {
+    switch (acl) {
+      case "public-read-write":
+        return 0o666;
+      case "public-read":
+        return 0o644;
+      case "authenticated-read":
+      case "aws-exec-read":
+      case "bucket-owner-read":
+        return 0o640;
+      case "bucket-owner-full-control":
+        return 0o660;
+      default:
+        return 0o600;
+    }
+  },
+};
+
+/**
+ * Convert a GetObjectAcl response into grants and the matching canned ACL
+ * @param owner Object owner
+ * @param grants Grants reported by S3
+ */
+export function parseAcl(
+  owner: Owner | undefined,
+  grants: Grant[] = [],
+): S3Acl {
+  const parsed = grants.map((grant) => ({
+    grantee:
+      grant.Grantee?.URI ??
+      grant.Grantee?.ID ??
+      grant.Grantee?.EmailAddress ??
+      "",
+    permission: grant.Permission ?? "",
+  }));
+
+  // Grants beyond the owner's own full control decide the canned ACL
+  const extra = parsed
+    .filter(
+      (grant) =>
+        grant.grantee !== owner?.ID || grant.permission !== "FULL_CONTROL",
+    )
+    .map((grant) => `${grant.grantee} ${grant.permission}`)
+    .sort()
+    .join(",");
+
+  const canned: Record<string, ObjectCannedACL> = {
+    "": "private",
+    [`${ALL_USERS} READ`]: "public-read",
+    [`${ALL_USERS} READ,${ALL_USERS} WRITE`]: "public-read-write",
+    [`${AUTHENTICATED_USERS} READ`]: "authenticated-read",
+  };
+
+  return { canned: canned[extra], owner: owner?.ID, grants: parsed };
+}
@@ -0,0 +1,228 @@
+import type { S3ObjectDetails } from "./s3";
+
+/**
+ * Cached file metadata and (optionally) content
+ */
+export interface S3FileCache {
+  content?: Buffer;
+  size: number;
+  lastModified: Date;
+  etag: string;
+  /** Extended object details, when the caching request reported them */
+  details?: S3ObjectDetails;
+  /** When the entry was stored or last revalidated (epoch milliseconds) */
+  cachedAt?: number;
+}
+
+/**
+ * How cached entries are kept consistent with S3
+ * - none: cached entries are trusted until they expire or are evicted
+ * - ttl: entries older than `revalidateAfter` are revalidated
+ * - always-revalidate: every cached read is revalidated
+ *
+ * Revalidation sends the stored ETag as `If-None-Match`, so unchanged
+ * objects cost a 304 response instead of a full download.
+ */
+export type CacheCoherence = "none" | "ttl" | "always-revalidate";
+
+/**
+ * Cache limits and expiry
+ */
+export interface S3CacheOptions {
+  /** Maximum number of cached entries (default: 10000) */
+  maxEntries?: number;
+  /** Maximum total bytes of cached content (default: 64 MiB) */
+  maxBytes?: number;
+  /** Lifetime of cached metadata in milliseconds (default: no expiry) */
+  ttl?: number;
+  /** Lifetime of cached content in milliseconds (default: same as ttl) */
+  contentTtl?: number;
+  /** Whether file content is cached at all (default: true) */
+  cacheContent?: boolean;
+}
+
+/**
+ * Cache statistics
+ */
+export interface S3CacheStats {
+  hits: number;
+  misses: number;
+  evictions: number;
+  entries: number;
+  bytes: number;
+}
+
+/**
+ * Storage backend for the S3FileSystem cache
+ *
+ * Keys are "<bucket>/<key>" so a single store can be shared between
+ * filesystems. Implementations enforce their own limits and expiry.
+ */
+export interface CacheStore {
+  /** Look up an entry, counting a hit or miss and marking it as recently used */
+  get(key: string): Promise<S3FileCache | undefined>;
+  /** Look up an entry without touching recency or statistics */
+  peek(key: string): Promise<S3FileCache | undefined>;
+  /** Store an entry, replacing any previous one */
+  set(key: string, entry: S3FileCache): Promise<void>;
+  /** Remove an entry */
+  delete(key: string): Promise<void>;
+  /** Remove every entry */
+  clear(): Promise<void>;
+  /** Current statistics */
+  stats(): S3CacheStats;
+}
+
+interface CacheRecord {
+  entry: S3FileCache;
+  expires: number;
+  contentExpires: number;
+}
+
+/**
+ * In-memory LRU cache for S3 file metadata and content
+ *
+ * Entries are evicted least recently used first once either the entry
+ * or the content byte limit is exceeded. Metadata and content expire
+ * independently; expired content is dropped while metadata is kept.
+ */
+export class MemoryCache implements CacheStore {
+  private readonly records = new Map<string, CacheRecord>();
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly ttl: number;
+  private readonly contentTtl: number;
+  private readonly cacheContent: boolean;
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(options: S3CacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 10000;
+    this.maxBytes = options.maxBytes ?? 64 * 1024 * 1024;
+    this.ttl = options.ttl ?? Number.POSITIVE_INFINITY;
+    this.contentTtl = options.contentTtl ?? this.ttl;
+    this.cacheContent = options.cacheContent ?? true;
+  }
+
+  /**
+   * Look up an entry, marking it as recently used
+   * @param key Cache key
+   */
+  async get(key: string): Promise<S3FileCache | undefined> {
+    const entry = this.lookup(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the most recently used position
+    const record = this.records.get(key) as CacheRecord;
+    this.records.delete(key);
+    this.records.set(key, record);
+    this.hits++;
+    return entry;
+  }
+
+  /**
+   * Look up an entry without touching recency or statistics
+   * @param key Cache key
+   */
+  async peek(key: string): Promise<S3FileCache | undefined> {
+    return this.lookup(key);
+  }
+
+  /**
+   * Store an entry, evicting least recently used entries when over limits
+   * @param key Cache key
+   * @param entry Metadata and optional content
+   */
+  async set(key: string, entry: S3FileCache): Promise<void> {
+    this.remove(key);
+
+    // Content that could never fit is not worth evicting everything for
+    const content =
+      this.cacheContent &&
+      entry.content &&
+      entry.content.length <= this.maxBytes
+        ? entry.content
+        : undefined;
+
+    const now = Date.now();
+    this.records.set(key, {
+      entry: { ...entry, content, cachedAt: entry.cachedAt ?? now },
+      expires: now + this.ttl,
+      contentExpires: now + this.contentTtl,
+    });
+    this.bytes += content?.length ?? 0;
+
+    this.evict();
+  }
+
+  /**
+   * Remove an entry
+   * @param key Cache key
+   */
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  /**
+   * Remove every entry (statistics are kept)
+   */
+  async clear(): Promise<void> {
+    this.records.clear();
+    this.bytes = 0;
+  }
+
+  /**
+   * Current cache statistics
+   */
+  stats(): S3CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.records.size,
+      bytes: this.bytes,
+    };
+  }
+
+  private lookup(key: string): S3FileCache | undefined {
+    const record = this.records.get(key);
+    if (!record) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (record.expires <= now) {
+      this.remove(key);
+      return undefined;
+    }
+    if (record.entry.content && record.contentExpires <= now) {
+      this.bytes -= record.entry.content.length;
+      record.entry = { ...record.entry, content: undefined };
+    }
+
+    return record.entry;
+  }
+
+  private remove(key: string): void {
+    const record = this.records.get(key);
+    if (record) {
+      this.bytes -= record.entry.content?.length ?? 0;
+      this.records.delete(key);
+    }
+  }
+
+  private evict(): void {
+    for (const key of this.records.keys()) {
+      if (this.records.size <= this.maxEntries && this.bytes <= this.maxBytes) {
+        return;
+      }
+      this.remove(key);
+      this.evictions++;
+    }
+  }
+}
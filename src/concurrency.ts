@@ -0,0 +1,46 @@
+/**
+ * Run an async task over every item with at most `limit` tasks in flight
+ *
+ * Results keep the order of the input. The first rejection stops new
+ * tasks from being started and is rethrown once running tasks settle.
+ * @param items Items to process
+ * @param limit Maximum number of concurrent tasks
+ * @param task Task to run for each item
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+
+  const worker = async (): Promise<void> => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await task(items[index], index);
+      } catch (error: unknown) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  if (failure) {
+    throw failure.error;
+  }
+
+  return results;
+}
+
+/**
+ * Wait for the given number of milliseconds
+ * @param ms Delay in milliseconds
+ */
+export function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,335 @@
+import { createHash, randomUUID } from "node:crypto";
+import {
+  mkdir,
+  readFile,
+  readdir,
+  rename,
+  rm,
+  stat,
+  utimes,
+  writeFile,
+} from "node:fs/promises";
+import { join } from "node:path";
+import type {
+  CacheStore,
+  S3CacheOptions,
+  S3CacheStats,
+  S3FileCache,
+} from "./cache";
+import type { S3ObjectDetails } from "./s3";
+
+/**
+ * Options for the on-disk cache
+ */
+export interface DiskCacheOptions extends S3CacheOptions {
+  /** Directory holding the cache files (created if missing) */
+  directory: string;
+}
+
+/**
+ * Contents of a metadata file - one per cached key
+ */
+interface DiskRecord {
+  key: string;
+  size: number;
+  lastModified: string;
+  etag: string;
+  details?: S3ObjectDetails;
+  cachedAt: number;
+  /** Metadata expiry (epoch milliseconds), absent when it never expires */
+  expires?: number;
+  /** Bytes of stored content, absent when only metadata is cached */
+  contentBytes?: number;
+  /** Content expiry (epoch milliseconds), absent when it never expires */
+  contentExpires?: number;
+}
+
+/**
+ * On-disk LRU cache for S3 file metadata and content
+ *
+ * Each key gets a small JSON metadata file; content is stored in a file
+ * named after the bucket, key and ETag, so a changed object can never be
+ * served from an old body. The index is rebuilt from the directory on
+ * first use, which lets the cache survive process restarts. Recency is
+ * kept in the metadata file's modification time.
+ */
+export class DiskCache implements CacheStore {
+  private readonly directory: string;
+  private readonly maxEntries: number;
+  private readonly maxBytes: number;
+  private readonly ttl?: number;
+  private readonly contentTtl?: number;
+  private readonly cacheContent: boolean;
+  private index?: Promise<Map<string, DiskRecord>>;
+  private records?: Map<string, DiskRecord>;
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private readonly writes = new Map<string, Promise<void>>();
+
+  constructor(options: DiskCacheOptions) {
+    this.directory = options.directory;
+    this.maxEntries = options.maxEntries ?? 10000;
+    this.maxBytes = options.maxBytes ?? 1024 * 1024 * 1024;
+    this.ttl = options.ttl;
+    this.contentTtl = options.contentTtl ?? options.ttl;
+    this.cacheContent = options.cacheContent ?? true;
+  }
+
+  /**
+   * Look up an entry, marking it as recently used
+   * @param key Cache key
+   */
+  async get(key: string): Promise<S3FileCache | undefined> {
+    const entry = await this.peek(key);
+    if (!entry) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the most recently used position, unless a concurrent delete
+    // or eviction dropped the entry while it was being read
+    const index = await this.load();
+    const record = index.get(key);
+    if (record) {
+      index.delete(key);
+      index.set(key, record);
+      const now = new Date();
+      await utimes(this.metadataPath(key), now, now).catch(() => undefined);
+    }
+
+    this.hits++;
+    return entry;
+  }
+
+  /**
+   * Look up an entry without touching recency or statistics
+   * @param key Cache key
+   */
+  async peek(key: string): Promise<S3FileCache | undefined> {
+    const index = await this.load();
+    const record = index.get(key);
+    if (!record) {
+      return undefined;
+    }
+
+    const now = Date.now();
+    if (record.expires !== undefined && record.expires <= now) {
+      await this.delete(key);
+      return undefined;
+    }
+
+    let content: Buffer | undefined;
+    if (record.contentBytes !== undefined) {
+      if (record.contentExpires !== undefined && record.contentExpires <= now) {
+        await this.dropContent(record);
+      } else {
+        try {
+          content = await readFile(this.contentPath(key, record.etag));
+        } catch {
+          // Content file was removed behind our back - keep the metadata
+          await this.dropContent(record);
+        }
+      }
+    }
+
+    return {
+      content,
+      size: record.size,
+      lastModified: new Date(record.lastModified),
+      etag: record.etag,
+      details: record.details,
+      cachedAt: record.cachedAt,
+    };
+  }
+
+  /**
+   * Store an entry, evicting least recently used entries when over limits
+   * @param key Cache key
+   * @param entry Metadata and optional content
+   */
+  async set(key: string, entry: S3FileCache): Promise<void> {
+    // Writes to one key run in turn so their files and byte counts don't interleave
+    const write = (this.writes.get(key) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => this.write(key, entry));
+    this.writes.set(key, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(key) === write) {
+        this.writes.delete(key);
+      }
+    }
+  }
+
+  private async write(key: string, entry: S3FileCache): Promise<void> {
+    await this.delete(key);
+
+    const now = Date.now();
+    const record: DiskRecord = {
+      key,
+      size: entry.size,
+      lastModified: entry.lastModified.toISOString(),
+      etag: entry.etag,
+      details: entry.details,
+      cachedAt: entry.cachedAt ?? now,
+      expires: this.ttl !== undefined ? now + this.ttl : undefined,
+    };
+
+    // Content that could never fit is not worth evicting everything for
+    if (
+      this.cacheContent &&
+      entry.content &&
+      entry.content.length <= this.maxBytes
+    ) {
+      await this.writeAtomic(this.contentPath(key, entry.etag), entry.content);
+      record.contentBytes = entry.content.length;
+      record.contentExpires =
+        this.contentTtl !== undefined ? now + this.contentTtl : undefined;
+    }
+    await this.writeAtomic(this.metadataPath(key), JSON.stringify(record));
+
+    const index = await this.load();
+    index.set(key, record);
+    this.bytes += record.contentBytes ?? 0;
+
+    await this.evict();
+  }
+
+  /**
+   * Remove an entry
+   * @param key Cache key
+   */
+  async delete(key: string): Promise<void> {
+    const index = await this.load();
+    const record = index.get(key);
+    if (!record) {
+      return;
+    }
+
+    index.delete(key);
+    this.bytes -= record.contentBytes ?? 0;
+    await Promise.all([
+      rm(this.metadataPath(key), { force: true }),
+      rm(this.contentPath(key, record.etag), { force: true }),
+    ]);
+  }
+
+  /**
+   * Remove every cache file in the directory (statistics are kept)
+   */
+  async clear(): Promise<void> {
+    const index = await this.load();
+    index.clear();
+    this.bytes = 0;
+
+    for (const name of await readdir(this.directory)) {
+      if (/\.(json|bin|tmp)$/.test(name)) {
+        await rm(join(this.directory, name), { force: true });
+      }
+    }
+  }
+
+  /**
+   * Current cache statistics
+   */
+  stats(): S3CacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      entries: this.records?.size ?? 0,
+      bytes: this.bytes,
+    };
+  }
+
+  private load(): Promise<Map<string, DiskRecord>> {
+    this.index ??= this.readIndex();
+    return this.index;
+  }
+
+  /**
+   * Rebuild the index from metadata files, least recently used first
+   */
+  private async readIndex(): Promise<Map<string, DiskRecord>> {
+    await mkdir(this.directory, { recursive: true });
+
+    const loaded: { record: DiskRecord; usedAt: number }[] = [];
+    for (const name of await readdir(this.directory)) {
+      if (!name.endsWith(".json")) {
+        continue;
+      }
+
+      const path = join(this.directory, name);
+      try {
+        const [text, info] = await Promise.all([
+          readFile(path, "utf8"),
+          stat(path),
+        ]);
+        loaded.push({ record: JSON.parse(text), usedAt: info.mtimeMs });
+      } catch {
+        // Unreadable entry - it will simply be fetched again
+        await rm(path, { force: true });
+      }
+    }
+
+    loaded.sort((a, b) => a.usedAt - b.usedAt);
+    const index = new Map<string, DiskRecord>();
+    for (const { record } of loaded) {
+      index.set(record.key, record);
+      this.bytes += record.contentBytes ?? 0;
+    }
+
+    this.records = index;
+    return index;
+  }
+
+  private async dropContent(record: DiskRecord): Promise<void> {
+    this.bytes -= record.contentBytes ?? 0;
+    record.contentBytes = undefined;
+    record.contentExpires = undefined;
+    await rm(this.contentPath(record.key, record.etag), { force: true });
+    await this.writeAtomic(
+      this.metadataPath(record.key),
+      JSON.stringify(record),
+    );
+  }
+
+  private async evict(): Promise<void> {
+    const index = await this.load();
+    for (const key of [...index.keys()]) {
+      if (index.size <= this.maxEntries && this.bytes <= this.maxBytes) {
+        return;
+      }
+      await this.delete(key);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Write through a temporary file so readers never see partial data
+   */
+  private async writeAtomic(
+    path: string,
+    data: string | Buffer,
+  ): Promise<void> {
+    const temporary = `${path}.${randomUUID()}.tmp`;
+    await writeFile(temporary, data);
+    await rename(temporary, path);
+  }
+
+  private metadataPath(key: string): string {
+    return join(this.directory, `${hash(key)}.json`);
+  }
+
+  private contentPath(key: string, etag: string): string {
+    return join(this.directory, `${hash(`${key}\n${etag}`)}.bin`);
+  }
+}
+
+function hash(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
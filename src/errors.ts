@@ -0,0 +1,59 @@
+/**
+ * Raised when a conditional write's precondition doesn't hold
+ *
+ * With `ifMatch` the object was changed (or deleted) by someone else;
+ * with `ifNoneMatch: "*"` the object already exists.
+ */
+export class PreconditionFailed extends Error {
+  readonly path: string;
+
+  constructor(path: string, condition: string) {
+    super(`Precondition failed for ${path}: ${condition}`);
+    this.name = "PreconditionFailed";
+    this.path = path;
+  }
+}
+
+/**
+ * Raised when a lock is held by someone else and its lease is still valid
+ */
+export class LockHeld extends Error {
+  readonly owner: string;
+  readonly expiresAt: Date;
+
+  constructor(name: string, owner: string, expiresAt: Date) {
+    super(`Lock ${name} is held by ${owner} until ${expiresAt.toISOString()}`);
+    this.name = "LockHeld";
+    this.owner = owner;
+    this.expiresAt = expiresAt;
+  }
+}
+
+/**
+ * Raised when renewing a lease that expired and was taken over
+ */
+export class LockLost extends Error {
+  constructor(name: string) {
+    super(`Lock ${name} was lost to another holder`);
+    this.name = "LockLost";
+  }
+}
+
+/**
+ * Raised when reading an object stored in an archive tier (Glacier
+ * Flexible Retrieval, Deep Archive or an Intelligent-Tiering archive
+ * tier) that hasn't been restored
+ */
+export class ObjectArchived extends Error {
+  readonly path: string;
+  readonly storageClass: string;
+
+  constructor(path: string, storageClass: string) {
+    super(
+      `Object ${path} is archived in ${storageClass} and must be restored before reading`,
+    );
+    this.name = "ObjectArchived";
+    this.path = path;
+    this.storageClass = storageClass;
+  }
+}
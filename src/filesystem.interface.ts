@@ -1,3 +1,5 @@
+import type { Readable, Writable } from "node:stream";
+
 export interface FileStats {
   isFile(): boolean;
   isDirectory(): boolean;
@@ -8,6 +10,33 @@ export interface FileStats {
   atime: Date;
   mode: number;
 }
+/**
+ * Entry that could not be deleted during a bulk delete
+ */
+export interface DeleteFailure {
+  key: string;
+  code: string;
+  message: string;
+}
+
+/**
+ * Outcome of a bulk delete
+ */
+export interface DeleteResult {
+  /** Keys confirmed as deleted */
+  deleted: string[];
+  /** Keys that could not be deleted, with the reported error code */
+  failed: DeleteFailure[];
+}
+
+/**
+ * Outcome of a write on stores that version their objects
+ */
+export interface WriteResult {
+  /** ETag of the newly written object */
+  etag: string;
+}
+
 /**
  * File system abstraction interface
  */
@@ -22,15 +51,36 @@ export interface IAsyncFileSystem {
   /**
    * Read a file as text
    * @param path File path
+   * @param encoding Text encoding (defaults to utf8)
    */
-  readFile(path: string): Promise<string>;
+  readFile(path: string, encoding?: BufferEncoding): Promise<string>;
 
   /**
    * Write text to a file
    * @param path File path
    * @param data Data to write
+   * @param encoding Text encoding (defaults to utf8)
+   * @returns A WriteResult on adapters that report ETags
+   */
+  writeFile(
+    path: string,
+    data: string,
+    encoding?: BufferEncoding,
+  ): Promise<unknown>;
+
+  /**
+   * Read a file as raw bytes (optional)
+   * @param path File path
+   */
+  readFileBuffer?(path: string): Promise<Uint8Array>;
+
+  /**
+   * Write raw bytes to a file (optional)
+   * @param path File path
+   * @param data Binary data to write
+   * @returns A WriteResult on adapters that report ETags
    */
-  writeFile(path: string, data: string): Promise<void>;
+  writeFileBuffer?(path: string, data: Uint8Array): Promise<unknown>;
 
   /**
    * Delete a file
@@ -41,8 +91,9 @@ export interface IAsyncFileSystem {
   /**
    *  Synchronously delete a directory
    * @param path Directory path
+   * @returns A DeleteResult on adapters that report bulk deletes
    */
-  deleteDir(path: string): Promise<void>;
+  deleteDir(path: string): Promise<unknown>;
   /**
    * Read a directory and return its contents
    * @param dirPath Directory path
@@ -62,6 +113,20 @@ export interface IAsyncFileSystem {
    */
   chmod(path: string, mode: number): Promise<void>;
 
+  /**
+   * Copy a file (optional)
+   * @param src Source file path
+   * @param dest Destination file path
+   */
+  copyFile?(src: string, dest: string): Promise<void>;
+
+  /**
+   * Move or rename a file (optional)
+   * @param src Source file path
+   * @param dest Destination file path
+   */
+  rename?(src: string, dest: string): Promise<void>;
+
   /**
    * Get file statistics, custom type for flexibility
    * @param path File path
@@ -71,6 +136,24 @@ export interface IAsyncFileSystem {
   /**
    * Clear the contents of a directory (optional)
    * @param dirPath Directory path
+   * @returns A DeleteResult on adapters that report bulk deletes
+   */
+  clear?(dirPath: string): Promise<unknown>;
+}
+
+/**
+ * Streaming extension for filesystems that can move data without buffering
+ */
+export interface IAsyncStreamingFileSystem extends IAsyncFileSystem {
+  /**
+   * Open a readable stream over a file's contents
+   * @param path File path
+   */
+  createReadStream(path: string): Readable;
+
+  /**
+   * Open a writable stream that replaces a file's contents
+   * @param path File path
    */
-  clear?(dirPath: string): Promise<void>;
+  createWriteStream(path: string): Writable;
 }
@@ -0,0 +1,103 @@
+/**
+ * Characters that start a glob construct
+ */
+const GLOB_CHARS = new Set(["*", "?", "{", "}", "\\"]);
+
+/**
+ * Get the literal part of a glob pattern before its first wildcard
+ *
+ * The result is used as the S3 listing prefix, so "logs/2024-*.txt"
+ * only lists keys starting with "logs/2024-".
+ * @param pattern Glob pattern
+ */
+export function globPrefix(pattern: string): string {
+  for (let i = 0; i < pattern.length; i++) {
+    if (GLOB_CHARS.has(pattern[i])) {
+      return pattern.slice(0, i);
+    }
+  }
+  return pattern;
+}
+
+/**
+ * Check if a pattern contains any glob syntax
+ * @param pattern Glob pattern
+ */
+export function isGlob(pattern: string): boolean {
+  return globPrefix(pattern) !== pattern;
+}
+
+/**
+ * Compile a glob pattern into an anchored regular expression
+ *
+ * Supports `*` (anything but "/"), `?` (one character but "/"), `**`
+ * (any number of path segments), `{a,b}` brace sets (nestable) and
+ * backslash escapes.
+ * @param pattern Glob pattern
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = "";
+  let depth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    switch (char) {
+      case "\\":
+        i++;
+        source += escapeRegExp(pattern[i] ?? "\\");
+        break;
+      case "*": {
+        if (pattern[i + 1] !== "*") {
+          source += "[^/]*";
+          break;
+        }
+
+        // "**" - swallow the whole run of stars
+        const start = i;
+        while (pattern[i + 1] === "*") {
+          i++;
+        }
+        const atSegmentStart = start === 0 || pattern[start - 1] === "/";
+        if (atSegmentStart && pattern[i + 1] === "/") {
+          // "**/" matches zero or more whole segments
+          source += "(?:[^/]*/)*";
+          i++;
+        } else {
+          source += ".*";
+        }
+        break;
+      }
+      case "?":
+        source += "[^/]";
+        break;
+      case "{":
+        depth++;
+        source += "(?:";
+        break;
+      case "}":
+        if (depth > 0) {
+          depth--;
+          source += ")";
+        } else {
+          source += "\\}";
+        }
+        break;
+      case ",":
+        source += depth > 0 ? "|" : ",";
+        break;
+      default:
+        source += escapeRegExp(char);
+    }
+  }
+
+  if (depth > 0) {
+    throw new Error(`Unbalanced braces in glob pattern: ${pattern}`);
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, "\\$&");
+}
@@ -1,7 +1,98 @@
-export { IAsyncFileSystem } from "./filesystem.interface";
+export {
+  DeleteFailure,
+  DeleteResult,
+  IAsyncFileSystem,
+  IAsyncStreamingFileSystem,
+  WriteResult,
+} from "./filesystem.interface";
 
 export {
   S3FileSystem,
   createS3FileSystem,
+  type DeleteFileOptions,
+  type EmptyTrashOptions,
+  type EncryptionOptions,
+  type IncompleteUpload,
+  type JSONValidator,
+  type ListObjectsOptions,
+  type ObjectHeaderOptions,
+  type ObjectVersion,
+  type RangeReadResult,
+  type ReadFileOptions,
+  type ReadJSONOptions,
+  type RestoreFromTrashOptions,
+  type RestoreOptions,
+  type RestoreStatus,
+  type S3FileStats,
   type S3FileSystemOptions,
+  type S3ObjectChecksum,
+  type S3ObjectDetails,
+  type S3ObjectEncryption,
+  type S3ObjectEntry,
+  type S3ReadStreamOptions,
+  type TransferOptions,
+  type TransferProgress,
+  type TransferResult,
+  type TrashEntry,
+  type UpdateOptions,
+  type VersionOptions,
+  type WalkEntry,
+  type WriteFileOptions,
+  type WriteJSONOptions,
 } from "./s3";
+
+export {
+  LockHeld,
+  LockLost,
+  ObjectArchived,
+  PreconditionFailed,
+} from "./errors";
+
+export {
+  type AclMapping,
+  type S3Acl,
+  type S3AclGrant,
+  defaultAclMapping,
+} from "./acl";
+export { type LockInfo, type LockOptions, S3Lock } from "./lock";
+
+export {
+  type CacheCoherence,
+  type CacheStore,
+  MemoryCache,
+  type S3CacheOptions,
+  type S3CacheStats,
+  type S3FileCache,
+} from "./cache";
+
+export { DiskCache, type DiskCacheOptions } from "./disk-cache";
+
+export { lookupContentType } from "./mime";
+
+export { globPrefix, globToRegExp, isGlob } from "./glob";
+
+export type {
+  SyncChange,
+  SyncCompare,
+  SyncDirection,
+  SyncOptions,
+  SyncResult,
+} from "./sync";
+
+export {
+  MultipartUpload,
+  type MultipartProgress,
+  type MultipartUploadOptions,
+  type MultipartUploadResult,
+  type MultipartUploadState,
+  type PartSource,
+  type UploadedPart,
+  bufferSource,
+  fileSource,
+} from "./multipart";
+
+export {
+  S3WriteStream,
+  type S3WriteStreamOptions,
+  type S3WriteStreamResult,
+} from "./streams";
@@ -0,0 +1,108 @@
+import { LockLost, PreconditionFailed } from "./errors";
+import type { S3FileSystem } from "./s3";
+
+/**
+ * Options for acquireLock
+ */
+export interface LockOptions {
+  /** Lease duration in milliseconds (default: 60000) */
+  ttl?: number;
+  /** Identifies the holder (default: "<hostname>:<pid>:<uuid>") */
+  owner?: string;
+  /** How long to keep trying while the lock is held, in milliseconds (default: 0) */
+  wait?: number;
+  /** Delay between attempts while waiting, in milliseconds (default: 1000) */
+  retryInterval?: number;
+}
+
+/**
+ * Contents of a lock object
+ */
+export interface LockInfo {
+  owner: string;
+  /** ISO timestamp after which the lease may be stolen */
+  expiresAt: string;
+}
+
+/**
+ * A held lease on an S3 lock object
+ *
+ * Every change is a conditional write on the ETag this holder last
+ * wrote, so a lease that was stolen after expiring can't be renewed or
+ * released by its previous holder.
+ */
+export class S3Lock {
+  readonly name: string;
+  readonly path: string;
+  readonly owner: string;
+  private readonly fs: S3FileSystem;
+  private readonly deleteLock: (etag: string) => Promise<boolean>;
+  private readonly ttl: number;
+  private currentEtag: string;
+  private currentExpiry: Date;
+
+  constructor(
+    fs: S3FileSystem,
+    lease: {
+      name: string;
+      path: string;
+      owner: string;
+      ttl: number;
+      expiresAt: Date;
+      etag: string;
+    },
+    deleteLock: (etag: string) => Promise<boolean>,
+  ) {
+    this.fs = fs;
+    this.deleteLock = deleteLock;
+    this.name = lease.name;
+    this.path = lease.path;
+    this.owner = lease.owner;
+    this.ttl = lease.ttl;
+    this.currentExpiry = lease.expiresAt;
+    this.currentEtag = lease.etag;
+  }
+
+  /** When the lease runs out unless renewed */
+  get expiresAt(): Date {
+    return this.currentExpiry;
+  }
+
+  /** ETag of the lock object as last written by this holder */
+  get etag(): string {
+    return this.currentEtag;
+  }
+
+  /**
+   * Extend the lease
+   * @param ttl New lease duration from now (defaults to the acquire ttl)
+   */
+  async renew(ttl: number = this.ttl): Promise<void> {
+    const expiresAt = new Date(Date.now() + ttl);
+    const info: LockInfo = {
+      owner: this.owner,
+      expiresAt: expiresAt.toISOString(),
+    };
+
+    try {
+      const { etag } = await this.fs.writeJSON(this.path, info, {
+        ifMatch: this.currentEtag,
+      });
+      this.currentEtag = etag;
+      this.currentExpiry = expiresAt;
+    } catch (error: unknown) {
+      if (error instanceof PreconditionFailed) {
+        throw new LockLost(this.name);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Release the lease
+   * @returns false when the lease had already been taken over
+   */
+  async release(): Promise<boolean> {
+    return this.deleteLock(this.currentEtag);
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Content types by lowercase file extension
+ */
+const MIME_TYPES: Record<string, string> = {
+  // Text
+  txt: "text/plain",
+  text: "text/plain",
+  log: "text/plain",
+  md: "text/markdown",
+  markdown: "text/markdown",
+  html: "text/html",
+  htm: "text/html",
+  css: "text/css",
+  csv: "text/csv",
+  tsv: "text/tab-separated-values",
+  ics: "text/calendar",
+  vtt: "text/vtt",
+  yaml: "application/yaml",
+  yml: "application/yaml",
+  toml: "application/toml",
+  ini: "text/plain",
+
+  // Code and data
+  js: "application/javascript",
+  mjs: "application/javascript",
+  cjs: "application/javascript",
+  json: "application/json",
+  jsonld: "application/ld+json",
+  map: "application/json",
+  webmanifest: "application/manifest+json",
+  ndjson: "application/x-ndjson",
+  geojson: "application/geo+json",
+  xml: "application/xml",
+  xhtml: "application/xhtml+xml",
+  rss: "application/rss+xml",
+  atom: "application/atom+xml",
+  wasm: "application/wasm",
+  sql: "application/sql",
+  graphql: "application/graphql",
+  parquet: "application/vnd.apache.parquet",
+  avro: "application/avro",
+
+  // Images
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  gif: "image/gif",
+  webp: "image/webp",
+  avif: "image/avif",
+  svg: "image/svg+xml",
+  ico: "image/x-icon",
+  bmp: "image/bmp",
+  tif: "image/tiff",
+  tiff: "image/tiff",
+  heic: "image/heic",
+  heif: "image/heif",
+
+  // Audio
+  mp3: "audio/mpeg",
+  wav: "audio/wav",
+  ogg: "audio/ogg",
+  oga: "audio/ogg",
+  opus: "audio/opus",
+  flac: "audio/flac",
+  aac: "audio/aac",
+  m4a: "audio/mp4",
+  weba: "audio/webm",
+  mid: "audio/midi",
+  midi: "audio/midi",
+
+  // Video
+  mp4: "video/mp4",
+  m4v: "video/mp4",
+  webm: "video/webm",
+  ogv: "video/ogg",
+  mov: "video/quicktime",
+  avi: "video/x-msvideo",
+  mkv: "video/x-matroska",
+  mpeg: "video/mpeg",
+  mpg: "video/mpeg",
+  ts: "video/mp2t",
+  m3u8: "application/vnd.apple.mpegurl",
+  mpd: "application/dash+xml",
+
+  // Fonts
+  woff: "font/woff",
+  woff2: "font/woff2",
+  ttf: "font/ttf",
+  otf: "font/otf",
+  eot: "application/vnd.ms-fontobject",
+
+  // Documents
+  pdf: "application/pdf",
+  rtf: "application/rtf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  odt: "application/vnd.oasis.opendocument.text",
+  ods: "application/vnd.oasis.opendocument.spreadsheet",
+  odp: "application/vnd.oasis.opendocument.presentation",
+  epub: "application/epub+zip",
+
+  // Archives and binaries
+  zip: "application/zip",
+  gz: "application/gzip",
+  tgz: "application/gzip",
+  bz2: "application/x-bzip2",
+  xz: "application/x-xz",
+  zst: "application/zstd",
+  "7z": "application/x-7z-compressed",
+  rar: "application/vnd.rar",
+  tar: "application/x-tar",
+  jar: "application/java-archive",
+  apk: "application/vnd.android.package-archive",
+  dmg: "application/x-apple-diskimage",
+  iso: "application/x-iso9660-image",
+  exe: "application/vnd.microsoft.portable-executable",
+  bin: "application/octet-stream",
+};
+
+/**
+ * Normalise an extension to its lookup form ("PNG", ".png" → "png")
+ * @param extension File extension with or without the leading dot
+ */
+export function normalizeExtension(extension: string): string {
+  return extension.replace(/^\./, "").toLowerCase();
+}
+
+/**
+ * Look up the content type for a file path by its extension
+ * @param path File path
+ * @param custom Extension → content type mappings checked first
+ * @returns The content type, or undefined for unknown extensions
+ */
+export function lookupContentType(
+  path: string,
+  custom: Record<string, string> = {},
+): string | undefined {
+  const name = path.slice(path.lastIndexOf("/") + 1);
+  const dot = name.lastIndexOf(".");
+  if (dot < 0) {
+    return undefined;
+  }
+
+  const extension = normalizeExtension(name.slice(dot + 1));
+  return custom[extension] ?? MIME_TYPES[extension];
+}
@@ -0,0 +1,508 @@
+import { open, stat } from "node:fs/promises";
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  type CompleteMultipartUploadCommandInput,
+  CreateMultipartUploadCommand,
+  type CreateMultipartUploadCommandInput,
+  ListPartsCommand,
+  type S3Client,
+  UploadPartCommand,
+  UploadPartCopyCommand,
+  type UploadPartCopyCommandInput,
+} from "@aws-sdk/client-s3";
+import { delay, mapWithConcurrency } from "./concurrency";
+
+/**
+ * Smallest part size S3 accepts for every part but the last (5 MiB)
+ */
+export const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+/**
+ * Largest number of parts a single multipart upload may have
+ */
+export const MAX_PARTS = 10000;
+
+/**
+ * A part that has been stored by S3
+ */
+export interface UploadedPart {
+  partNumber: number;
+  etag: string;
+  size: number;
+}
+
+/**
+ * Everything needed to resume a multipart upload after a crash
+ *
+ * Persist this (e.g. as JSON) from `onCheckpoint` and pass it back as
+ * `resume` to continue where the previous process stopped.
+ */
+export interface MultipartUploadState {
+  bucket: string;
+  key: string;
+  uploadId: string;
+  partSize: number;
+  parts: UploadedPart[];
+}
+
+/**
+ * Progress of a running multipart upload
+ */
+export interface MultipartProgress {
+  key: string;
+  /** Bytes stored so far, including parts restored on resume */
+  loaded: number;
+  /** Total bytes to upload (0 when unknown, e.g. for streams) */
+  total: number;
+  partNumber: number;
+  partsCompleted: number;
+  totalParts: number;
+}
+
+/**
+ * Multipart upload options
+ */
+export interface MultipartUploadOptions {
+  /** Size of each part in bytes (minimum 5 MiB) */
+  partSize?: number;
+  /** Number of parts uploaded in parallel */
+  concurrency?: number;
+  /** Content type of the resulting object */
+  contentType?: string;
+  /** Extra CreateMultipartUpload parameters (headers, metadata, ...) */
+  objectParams?: Omit<CreateMultipartUploadCommandInput, "Bucket" | "Key">;
+  /** Preconditions checked when the upload is completed */
+  completeParams?: Pick<
+    CompleteMultipartUploadCommandInput,
+    "IfMatch" | "IfNoneMatch"
+  >;
+  /** SSE-C key of the object copied by copyPart */
+  copySourceParams?: Pick<
+    UploadPartCopyCommandInput,
+    "CopySourceSSECustomerAlgorithm" | "CopySourceSSECustomerKey"
+  >;
+  /** Attempts per part before the upload fails */
+  retries?: number;
+  /** Keep uploaded parts on failure instead of aborting the upload */
+  leavePartsOnError?: boolean;
+  /** Previously persisted state to resume from */
+  resume?: MultipartUploadState;
+  /** Called after every stored part */
+  onProgress?: (progress: MultipartProgress) => void;
+  /** Called with a snapshot of the state whenever it changes */
+  onCheckpoint?: (state: MultipartUploadState) => void | Promise<void>;
+}
+
+/**
+ * Result of a completed multipart upload
+ */
+export interface MultipartUploadResult {
+  key: string;
+  uploadId: string;
+  etag: string;
+  size: number;
+  parts: number;
+}
+
+/**
+ * Random-access data that can be split into parts
+ */
+export interface PartSource {
+  size: number;
+  read(start: number, end: number): Promise<Uint8Array>;
+}
+
+/**
+ * Create a part source over in-memory data
+ * @param data Data to upload
+ */
+export function bufferSource(data: Uint8Array): PartSource {
+  return {
+    size: data.byteLength,
+    read: async (start, end) => data.subarray(start, end),
+  };
+}
+
+/**
+ * Create a part source over a local file, read one part at a time
+ * @param localPath Path of the local file
+ */
+export async function fileSource(localPath: string): Promise<PartSource> {
+  const { size } = await stat(localPath);
+
+  return {
+    size,
+    read: async (start, end) => {
+      const handle = await open(localPath, "r");
+      try {
+        const buffer = Buffer.alloc(end - start);
+        const { bytesRead } = await handle.read(
+          buffer,
+          0,
+          buffer.length,
+          start,
+        );
+        return buffer.subarray(0, bytesRead);
+      } finally {
+        await handle.close();
+      }
+    },
+  };
+}
+
+/**
+ * Multipart upload of a single S3 object
+ *
+ * Use `upload()` to send a whole source with parallel parts, or drive
+ * `start()`, `uploadPart()` and `complete()` yourself for sequential
+ * producers such as streams.
+ */
+export class MultipartUpload {
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly key: string;
+  private readonly options: MultipartUploadOptions;
+  private partSize: number;
+  private uploadId?: string;
+  private parts = new Map<number, UploadedPart>();
+  private total = 0;
+  private totalParts = 0;
+
+  constructor(
+    client: S3Client,
+    bucket: string,
+    key: string,
+    options: MultipartUploadOptions = {},
+  ) {
+    this.client = client;
+    this.bucket = bucket;
+    this.key = key;
+    this.options = options;
+    this.partSize = Math.max(
+      options.resume?.partSize ?? options.partSize ?? MIN_PART_SIZE,
+      MIN_PART_SIZE,
+    );
+  }
+
+  /**
+   * Snapshot of the upload that can be persisted for resuming
+   */
+  get state(): MultipartUploadState {
+    return {
+      bucket: this.bucket,
+      key: this.key,
+      uploadId: this.uploadId || "",
+      partSize: this.partSize,
+      parts: [...this.parts.values()].sort(
+        (a, b) => a.partNumber - b.partNumber,
+      ),
+    };
+  }
+
+  /**
+   * Start a new upload, or reconcile a resumed one with the parts S3 holds
+   */
+  async start(): Promise<void> {
+    if (this.uploadId) {
+      return;
+    }
+
+    const resume = this.options.resume;
+    if (resume) {
+      if (resume.bucket !== this.bucket || resume.key !== this.key) {
+        throw new Error(
+          `Cannot resume upload of ${resume.bucket}/${resume.key} as ${this.bucket}/${this.key}`,
+        );
+      }
+      this.uploadId = resume.uploadId;
+      await this.restoreParts(resume.parts);
+    } else {
+      const response = await this.client.send(
+        new CreateMultipartUploadCommand({
+          ContentType: this.options.contentType,
+          ...this.options.objectParams,
+          Bucket: this.bucket,
+          Key: this.key,
+        }),
+      );
+      if (!response.UploadId) {
+        throw new Error(`Failed to start multipart upload for ${this.key}`);
+      }
+      this.uploadId = response.UploadId;
+    }
+
+    await this.checkpoint();
+  }
+
+  /**
+   * Upload a single part, retrying transient failures
+   * @param partNumber 1-based part number
+   * @param body Part content
+   */
+  async uploadPart(partNumber: number, body: Uint8Array): Promise<void> {
+    const etag = await this.withRetries(async () => {
+      const response = await this.client.send(
+        new UploadPartCommand({
+          Bucket: this.bucket,
+          Key: this.key,
+          UploadId: this.uploadId,
+          PartNumber: partNumber,
+          Body: body,
+          ...this.customerKeyParams(),
+        }),
+      );
+      return response.ETag;
+    });
+
+    await this.recordPart(partNumber, etag, body.byteLength);
+  }
+
+  /**
+   * Copy a byte range of an existing object into a part, server side
+   * @param partNumber 1-based part number
+   * @param copySource URL-encoded "bucket/key" of the source object
+   * @param start Offset of the first byte
+   * @param end Offset of the last byte (inclusive)
+   */
+  async copyPart(
+    partNumber: number,
+    copySource: string,
+    start: number,
+    end: number,
+  ): Promise<void> {
+    const etag = await this.withRetries(async () => {
+      const response = await this.client.send(
+        new UploadPartCopyCommand({
+          Bucket: this.bucket,
+          Key: this.key,
+          UploadId: this.uploadId,
+          PartNumber: partNumber,
+          CopySource: copySource,
+          CopySourceRange: `bytes=${start}-${end}`,
+          ...this.customerKeyParams(),
+          ...this.options.copySourceParams,
+        }),
+      );
+      return response.CopyPartResult?.ETag;
+    });
+
+    await this.recordPart(partNumber, etag, end - start + 1);
+  }
+
+  /**
+   * Assemble the uploaded parts into the final object
+   */
+  async complete(): Promise<MultipartUploadResult> {
+    const parts = this.state.parts;
+    const response = await this.client.send(
+      new CompleteMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: this.key,
+        UploadId: this.uploadId,
+        MultipartUpload: {
+          Parts: parts.map((part) => ({
+            PartNumber: part.partNumber,
+            ETag: part.etag,
+          })),
+        },
+        ...this.customerKeyParams(),
+        ...this.options.completeParams,
+      }),
+    );
+
+    return {
+      key: this.key,
+      uploadId: this.uploadId || "",
+      etag: response.ETag || "",
+      size: this.loaded(),
+      parts: parts.length,
+    };
+  }
+
+  /**
+   * Abort the upload and let S3 discard every stored part
+   */
+  async abort(): Promise<void> {
+    if (!this.uploadId) {
+      return;
+    }
+
+    await this.client.send(
+      new AbortMultipartUploadCommand({
+        Bucket: this.bucket,
+        Key: this.key,
+        UploadId: this.uploadId,
+      }),
+    );
+    this.uploadId = undefined;
+    this.parts.clear();
+  }
+
+  /**
+   * Upload a whole source with parallel parts
+   *
+   * Parts already stored by a resumed upload are skipped. On failure the
+   * upload is aborted unless `leavePartsOnError` is set.
+   * @param source Data to upload
+   */
+  async upload(source: PartSource): Promise<MultipartUploadResult> {
+    return this.transfer(source.size, async (partNumber, start, end) =>
+      this.uploadPart(partNumber, await source.read(start, end)),
+    );
+  }
+
+  /**
+   * Copy an existing object with parallel UploadPartCopy requests
+   * @param copySource URL-encoded "bucket/key" of the source object
+   * @param size Size of the source object in bytes
+   */
+  async copy(copySource: string, size: number): Promise<MultipartUploadResult> {
+    return this.transfer(size, (partNumber, start, end) =>
+      this.copyPart(partNumber, copySource, start, end - 1),
+    );
+  }
+
+  /**
+   * Split `size` bytes into parts and send the missing ones in parallel
+   * @param size Total number of bytes
+   * @param sendPart Sends one part covering [start, end)
+   */
+  private async transfer(
+    size: number,
+    sendPart: (partNumber: number, start: number, end: number) => Promise<void>,
+  ): Promise<MultipartUploadResult> {
+    // Grow the part size if the source would need more parts than S3 allows
+    if (!this.options.resume) {
+      this.partSize = Math.max(this.partSize, Math.ceil(size / MAX_PARTS));
+    }
+    this.total = size;
+    this.totalParts = Math.max(1, Math.ceil(size / this.partSize));
+
+    await this.start();
+
+    try {
+      const pending: number[] = [];
+      for (let partNumber = 1; partNumber <= this.totalParts; partNumber++) {
+        if (!this.parts.has(partNumber)) {
+          pending.push(partNumber);
+        }
+      }
+
+      await mapWithConcurrency(
+        pending,
+        this.options.concurrency ?? 4,
+        async (partNumber) => {
+          const start = (partNumber - 1) * this.partSize;
+          const end = Math.min(start + this.partSize, size);
+          await sendPart(partNumber, start, end);
+        },
+      );
+
+      return await this.complete();
+    } catch (error: unknown) {
+      if (!this.options.leavePartsOnError) {
+        await this.abort().catch(() => undefined);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Run a part request, retrying with exponential backoff
+   * @param send Sends the request and returns the part ETag
+   */
+  private async withRetries(
+    send: () => Promise<string | undefined>,
+  ): Promise<string> {
+    const attempts = Math.max(1, this.options.retries ?? 3);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return (await send()) || "";
+      } catch (error: unknown) {
+        if (attempt >= attempts) {
+          throw error;
+        }
+        await delay(100 * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  /**
+   * Record a stored part and report progress
+   */
+  private async recordPart(
+    partNumber: number,
+    etag: string,
+    size: number,
+  ): Promise<void> {
+    this.parts.set(partNumber, { partNumber, etag, size });
+
+    this.options.onProgress?.({
+      key: this.key,
+      loaded: this.loaded(),
+      total: this.total,
+      partNumber,
+      partsCompleted: this.parts.size,
+      totalParts: this.totalParts,
+    });
+    await this.checkpoint();
+  }
+
+  private loaded(): number {
+    let loaded = 0;
+    for (const part of this.parts.values()) {
+      loaded += part.size;
+    }
+    return loaded;
+  }
+
+  /**
+   * SSE-C key the upload was created with - S3 requires it on every part
+   */
+  private customerKeyParams(): Pick<
+    CreateMultipartUploadCommandInput,
+    "SSECustomerAlgorithm" | "SSECustomerKey" | "SSECustomerKeyMD5"
+  > {
+    const { SSECustomerAlgorithm, SSECustomerKey, SSECustomerKeyMD5 } =
+      this.options.objectParams ?? {};
+    return { SSECustomerAlgorithm, SSECustomerKey, SSECustomerKeyMD5 };
+  }
+
+  /**
+   * Keep only persisted parts that S3 still holds with the same ETag
+   */
+  private async restoreParts(persisted: UploadedPart[]): Promise<void> {
+    const stored = new Map<number, string>();
+    let marker: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListPartsCommand({
+          Bucket: this.bucket,
+          Key: this.key,
+          UploadId: this.uploadId,
+          PartNumberMarker: marker,
+          ...this.customerKeyParams(),
+        }),
+      );
+      for (const part of response.Parts || []) {
+        if (part.PartNumber) {
+          stored.set(part.PartNumber, part.ETag || "");
+        }
+      }
+      marker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (marker);
+
+    for (const part of persisted) {
+      if (stored.get(part.partNumber) === part.etag) {
+        this.parts.set(part.partNumber, part);
+      }
+    }
+  }
+
+  private async checkpoint(): Promise<void> {
+    await this.options.onCheckpoint?.(this.state);
+  }
+}
@@ -1,12 +1,111 @@
+import { randomUUID } from "node:crypto";
+import { hostname } from "node:os";
+import type { Readable } from "node:stream";
+import { PassThrough } from "node:stream";
+import { pipeline } from "node:stream/promises";
 import {
+  AbortMultipartUploadCommand,
+  CopyObjectCommand,
+  type CopyObjectCommandInput,
   DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectAclCommand,
   GetObjectCommand,
+  type GetObjectCommandOutput,
+  GetObjectTaggingCommand,
   HeadObjectCommand,
+  type HeadObjectCommandInput,
+  type HeadObjectCommandOutput,
+  ListMultipartUploadsCommand,
+  ListObjectVersionsCommand,
   ListObjectsV2Command,
+  type ListObjectsV2CommandOutput,
+  type ObjectCannedACL,
+  PutObjectAclCommand,
   PutObjectCommand,
+  type PutObjectCommandInput,
+  PutObjectTaggingCommand,
+  RestoreObjectCommand,
   S3Client,
+  type ServerSideEncryption,
+  type StorageClass,
+  type Tier,
 } from "@aws-sdk/client-s3";
-import type { FileStats, IAsyncFileSystem } from "./filesystem.interface";
+import {
+  type AclMapping,
+  type S3Acl,
+  defaultAclMapping,
+  parseAcl,
+} from "./acl";
+import {
+  type CacheCoherence,
+  type CacheStore,
+  MemoryCache,
+  type S3CacheOptions,
+  type S3CacheStats,
+  type S3FileCache,
+} from "./cache";
+import { delay, mapWithConcurrency } from "./concurrency";
+import { LockHeld, ObjectArchived, PreconditionFailed } from "./errors";
+import type {
+  DeleteResult,
+  FileStats,
+  IAsyncStreamingFileSystem,
+  WriteResult,
+} from "./filesystem.interface";
+import { globPrefix, globToRegExp, isGlob } from "./glob";
+import { type LockInfo, type LockOptions, S3Lock } from "./lock";
+import { lookupContentType, normalizeExtension } from "./mime";
+import {
+  MultipartUpload,
+  type MultipartUploadOptions,
+  type MultipartUploadResult,
+  type PartSource,
+  bufferSource,
+  fileSource,
+} from "./multipart";
+import {
+  S3WriteStream,
+  type S3WriteStreamOptions,
+  bodyToReadable,
+} from "./streams";
+import { type SyncOptions, type SyncResult, syncDirectories } from "./sync";
+
+/**
+ * Checksum response fields and the algorithm each one holds
+ */
+const CHECKSUM_FIELDS = [
+  ["ChecksumCRC64NVME", "CRC64NVME"],
+  ["ChecksumCRC32", "CRC32"],
+  ["ChecksumCRC32C", "CRC32C"],
+  ["ChecksumSHA1", "SHA1"],
+  ["ChecksumSHA256", "SHA256"],
+] as const;
+
+/**
+ * Storage classes whose objects must be restored before they can be read
+ */
+const ARCHIVE_STORAGE_CLASSES = new Set(["GLACIER", "DEEP_ARCHIVE"]);
+
+/**
+ * Largest object a single CopyObject request can copy (5 GiB)
+ */
+const MAX_COPY_OBJECT_SIZE = 5 * 1024 * 1024 * 1024;
+
+/**
+ * Part size used when copying larger objects with UploadPartCopy
+ */
+const COPY_PART_SIZE = 512 * 1024 * 1024;
+
+/**
+ * Metadata key recording where a trashed object was deleted from
+ */
+const TRASH_PATH_METADATA = "trash-original-path";
+
+/**
+ * Number of objects copied into the trash in parallel
+ */
+const TRASH_COPY_CONCURRENCY = 8;
 
 /**
  * S3 filesystem configuration options
@@ -28,18 +127,414 @@ export interface S3FileSystemOptions {
   endpoint?: string;
   /** Force path style URLs */
   forcePathStyle?: boolean;
+  /** Size in bytes above which writes switch to multipart uploads */
+  multipartThreshold?: number;
+  /** Default part size in bytes for multipart uploads */
+  partSize?: number;
+  /** Default number of parts uploaded in parallel */
+  uploadConcurrency?: number;
+  /** Number of DeleteObjects batches sent in parallel */
+  deleteConcurrency?: number;
+  /** Create zero-byte "dir/" marker objects in ensureDir */
+  directoryMarkers?: boolean;
+  /** Limits and expiry of the metadata/content cache */
+  cache?: S3CacheOptions;
+  /** Custom cache backend (replaces the in-memory cache configured by `cache`) */
+  cacheStore?: CacheStore;
+  /** How cached entries are revalidated against S3 (default: "none") */
+  coherence?: CacheCoherence;
+  /** Age in milliseconds after which "ttl" coherence revalidates (default: 60000) */
+  revalidateAfter?: number;
+  /** Directory holding lock objects (default: ".locks/") */
+  lockPrefix?: string;
+  /** Move deleted files into the trash instead of deleting them (default: false) */
+  trash?: boolean;
+  /** Directory holding trashed files (default: ".trash/") */
+  trashPrefix?: string;
+  /** Headers applied to every write unless overridden per call */
+  defaultHeaders?: ObjectHeaderOptions;
+  /** Extra extension → content type mappings, e.g. { gltf: "model/gltf+json" } */
+  contentTypes?: Record<string, string>;
+  /** Translation between chmod/stat modes and canned ACLs */
+  aclMapping?: AclMapping;
+  /**
+   * Storage class by path prefix, e.g. { "archive/": "GLACIER" }
+   * (the longest matching prefix wins over defaultHeaders.storageClass)
+   */
+  storageClasses?: Record<string, StorageClass>;
+  /** Server-side encryption applied to every object written */
+  encryption?: EncryptionOptions;
+}
+
+/**
+ * HTTP headers stored with an object and returned when it is served
+ */
+export interface ObjectHeaderOptions {
+  /** Content-Type (default: looked up from the file extension) */
+  contentType?: string;
+  /** Canned ACL (x-amz-acl), e.g. "public-read" */
+  acl?: ObjectCannedACL;
+  /** Storage class, e.g. "STANDARD_IA" (default: by prefix, then STANDARD) */
+  storageClass?: StorageClass;
+  /** Cache-Control, e.g. "public, max-age=31536000, immutable" */
+  cacheControl?: string;
+  /** Content-Disposition, e.g. 'attachment; filename="report.pdf"' */
+  contentDisposition?: string;
+  /** Content-Encoding, e.g. "gzip" for pre-compressed assets */
+  contentEncoding?: string;
+  /** Content-Language, e.g. "en-GB" */
+  contentLanguage?: string;
+  /** Expires */
+  expires?: Date;
+}
+
+/**
+ * Server-side encryption of written objects
+ *
+ * Either S3/KMS managed keys or a customer-provided key (SSE-C), never
+ * both. Unset fields fall back to the bucket's default encryption.
+ */
+export interface EncryptionOptions {
+  /** "AES256", "aws:kms" or "aws:kms:dsse" (default: "aws:kms" with a kmsKeyId) */
+  serverSideEncryption?: ServerSideEncryption;
+  /** KMS key ID, alias or ARN for SSE-KMS */
+  kmsKeyId?: string;
+  /** Use an S3 Bucket Key to reduce KMS requests */
+  bucketKeyEnabled?: boolean;
+  /** 256-bit customer-provided key for SSE-C, as bytes or a base64 string */
+  customerKey?: Uint8Array | string;
+}
+
+/**
+ * Options for writeFile and writeFileBuffer
+ */
+export interface WriteFileOptions extends ObjectHeaderOptions {
+  /** Encoding of string data (writeFile only, default: utf8) */
+  encoding?: BufferEncoding;
+  /** Only write if the current object has this ETag */
+  ifMatch?: string;
+  /** Only write if the object doesn't exist yet ("*") */
+  ifNoneMatch?: "*";
+  /** User metadata stored as x-amz-meta-* headers */
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Selects a specific version of an object on versioned buckets
+ */
+export interface VersionOptions {
+  /** Version to use instead of the latest */
+  versionId?: string;
+}
+
+/**
+ * Options for readFile
+ */
+export interface ReadFileOptions extends VersionOptions {
+  encoding?: BufferEncoding;
+}
+
+/**
+ * Options for deleteFile
+ */
+export interface DeleteFileOptions {
+  /** Only delete if the current object has this ETag */
+  ifMatch?: string;
+}
+
+/**
+ * Validation hook for JSON documents - returns the typed document or throws
+ */
+export type JSONValidator<T> = (value: unknown) => T;
+
+/**
+ * Options for readJSON
+ */
+export interface ReadJSONOptions<T> {
+  /** Validates (and may transform) the parsed document */
+  validate?: JSONValidator<T>;
+}
+
+/**
+ * Options for writeJSON
+ */
+export interface WriteJSONOptions<T> extends WriteFileOptions {
+  /** Validates the document before it is written */
+  validate?: JSONValidator<T>;
+  /** Indentation passed to JSON.stringify */
+  space?: number;
+}
+
+/**
+ * Options for update
+ */
+export interface UpdateOptions<T> {
+  /** Retries after a conflicting write (default: 5) */
+  retries?: number;
+  /** Validates documents on read and before they are written */
+  validate?: JSONValidator<T>;
+  /** Indentation passed to JSON.stringify */
+  space?: number;
 }
 
 /**
- * In-memory cache for file metadata and content
+ * Result of a ranged read
  */
-interface S3FileCache {
-  content?: string;
+export interface RangeReadResult {
+  /** Bytes returned for the requested range */
+  data: Buffer;
+  /** Offset of the first returned byte */
+  start: number;
+  /** Offset of the last returned byte (inclusive, start - 1 when empty) */
+  end: number;
+  /** Total size of the object as reported by S3 */
+  size: number;
+}
+
+/**
+ * Byte range for stream reads (both ends inclusive, like fs.createReadStream)
+ */
+export interface S3ReadStreamOptions {
+  start?: number;
+  end?: number;
+}
+
+/**
+ * Options for listing objects
+ */
+export interface ListObjectsOptions {
+  /** Descend into sub-prefixes instead of stopping at "/" (default: false) */
+  recursive?: boolean;
+  /** Keys requested per ListObjectsV2 call (max 1000) */
+  pageSize?: number;
+}
+
+/**
+ * Object or common prefix yielded by listObjects
+ */
+export interface S3ObjectEntry {
+  /** Full S3 key (common prefixes end with "/") */
+  key: string;
+  /** Path relative to the filesystem root */
+  path: string;
+  size: number;
+  etag: string;
+  lastModified?: Date;
+  /** True for common prefixes and "dir/" marker objects */
+  isDirectory: boolean;
+}
+
+/**
+ * File or directory yielded by walk
+ */
+export interface WalkEntry {
+  /** Path relative to the filesystem root (directories end with "/") */
+  path: string;
+  stats: FileStats;
+}
+
+/**
+ * Progress of a directory copy or move
+ */
+export interface TransferProgress {
+  /** Source path of the file that just finished */
+  path: string;
+  filesDone: number;
+  filesTotal: number;
+  bytesDone: number;
+  bytesTotal: number;
+}
+
+/**
+ * Options for copyDir and moveDir
+ */
+export interface TransferOptions {
+  /** Filesystem to copy into (defaults to this one) */
+  target?: S3FileSystem;
+  /** Number of objects copied in parallel (default: 8) */
+  concurrency?: number;
+  /** Force (true) or forbid (false) server-side copies between instances */
+  serverSide?: boolean;
+  /** Called after every copied object */
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+/**
+ * Outcome of copyDir or moveDir
+ */
+export interface TransferResult {
+  /** Destination paths that were written */
+  copied: string[];
+  bytes: number;
+  /** Whether objects were copied server side or streamed */
+  mode: "server-side" | "stream";
+  /** Source deletion outcome (moveDir only) */
+  deleted?: DeleteResult;
+}
+
+/**
+ * Multipart upload that was started but never completed or aborted
+ */
+export interface IncompleteUpload {
+  key: string;
+  uploadId: string;
+  initiated: Date;
+}
+
+/**
+ * File in the trash, as listed by listTrash
+ */
+export interface TrashEntry {
+  /** Path of the trashed copy, as accepted by restoreFromTrash */
+  path: string;
+  /** Path the file was deleted from */
+  originalPath: string;
+  deletedAt: Date;
+  size: number;
+}
+
+/**
+ * Options for emptyTrash
+ */
+export interface EmptyTrashOptions {
+  /** Only purge files deleted at least this many milliseconds ago (default: 0) */
+  olderThan?: number;
+}
+
+/**
+ * Options for restoreFromTrash
+ */
+export interface RestoreFromTrashOptions {
+  /** Replace a file that now exists at the original path (default: false) */
+  overwrite?: boolean;
+}
+
+/**
+ * Version or delete marker of an object, as listed by listVersions
+ */
+export interface ObjectVersion {
+  versionId: string;
+  /** Whether this is the current version */
+  isLatest: boolean;
+  /** Delete markers hide the object without removing older versions */
+  isDeleteMarker: boolean;
+  lastModified?: Date;
   size: number;
-  lastModified: Date;
   etag: string;
+  storageClass?: string;
+}
+
+/**
+ * Server-side encryption applied to an object
+ */
+export interface S3ObjectEncryption {
+  /** "AES256", "aws:kms", "aws:kms:dsse", or "SSE-C" for customer-provided keys */
+  algorithm: string;
+  kmsKeyId?: string;
+  bucketKeyEnabled?: boolean;
+}
+
+/**
+ * Integrity checksum stored with an object
+ */
+export interface S3ObjectChecksum {
+  /** CRC32, CRC32C, CRC64NVME, SHA1 or SHA256 */
+  algorithm: string;
+  /** Base64 checksum (listings only report the algorithm) */
+  value?: string;
+  /** FULL_OBJECT, or COMPOSITE for checksums of multipart parts */
+  type?: string;
+}
+
+/**
+ * Object details S3 reports alongside size and timestamps
+ */
+export interface S3ObjectDetails {
+  contentType?: string;
+  storageClass?: string;
+  versionId?: string;
+  /** User metadata (x-amz-meta-* headers) */
+  metadata?: Record<string, string>;
+  /** Canned ACL, when it was applied or read through this filesystem */
+  acl?: ObjectCannedACL;
+  encryption?: S3ObjectEncryption;
+  checksum?: S3ObjectChecksum;
 }
 
+/**
+ * File statistics extended with S3 object details
+ *
+ * Details are only present when S3 reported them: listings carry no
+ * content type, metadata or encryption, and directories have none.
+ */
+export interface S3FileStats extends FileStats, S3ObjectDetails {
+  etag?: string;
+}
+
+/**
+ * Options for restoring an archived object
+ */
+export interface RestoreOptions {
+  /** How long the restored copy stays readable (default: 1) */
+  days?: number;
+  /** Retrieval speed and cost: "Expedited", "Standard" or "Bulk" (default: "Standard") */
+  tier?: Tier;
+}
+
+/**
+ * Archive and restore state of an object
+ */
+export interface RestoreStatus {
+  storageClass: string;
+  /** Stored in a tier that must be restored before reading */
+  archived: boolean;
+  /** A restore was requested and hasn't finished */
+  ongoing: boolean;
+  /** When the restored copy expires, once a restore has finished */
+  restoredUntil?: Date;
+  /** Whether the content can be read right now */
+  readable: boolean;
+}
+
+/**
+ * Response fields object details are read from (HEAD, GET and PUT)
+ */
+type ObjectDetailsSource = Partial<
+  Pick<
+    HeadObjectCommandOutput,
+    | "ContentType"
+    | "StorageClass"
+    | "VersionId"
+    | "Metadata"
+    | "ServerSideEncryption"
+    | "SSEKMSKeyId"
+    | "BucketKeyEnabled"
+    | "SSECustomerAlgorithm"
+    | "ChecksumCRC32"
+    | "ChecksumCRC32C"
+    | "ChecksumCRC64NVME"
+    | "ChecksumSHA1"
+    | "ChecksumSHA256"
+    | "ChecksumType"
+  >
+>;
+
+/**
+ * Headers carried over or replaced when an object is copied
+ */
+type ObjectHeaders = Pick<
+  CopyObjectCommandInput,
+  | "ContentType"
+  | "CacheControl"
+  | "ContentDisposition"
+  | "ContentEncoding"
+  | "ContentLanguage"
+  | "Expires"
+  | "Metadata"
+  | "StorageClass"
+  | "ACL"
+>;
+
 /**
  * Async S3-based filesystem implementation
  *
@@ -47,7 +542,7 @@ interface S3FileCache {
  * Each file operation corresponds to S3 object operations.
  * Directories are handled virtually through object key prefixes.
  */
-export class S3FileSystem implements IAsyncFileSystem {
+export class S3FileSystem implements IAsyncStreamingFileSystem {
   private s3: S3Client;
   private options: Required<
     Omit<
@@ -57,6 +552,7 @@ export class S3FileSystem implements IAsyncFileSystem {
       | "sessionToken"
       | "endpoint"
       | "forcePathStyle"
+      | "cacheStore"
     >
   > &
     Pick<
@@ -66,14 +562,41 @@ export class S3FileSystem implements IAsyncFileSystem {
       | "sessionToken"
       | "endpoint"
       | "forcePathStyle"
+      | "cacheStore"
     >;
-  private cache = new Map<string, S3FileCache>();
+  private cache: CacheStore;
+  private contentTypes: Record<string, string> = {};
+  /** Base64-encoded SSE-C key */
+  private customerKey?: string;
 
   constructor(options: S3FileSystemOptions) {
     this.options = {
       prefix: "",
+      multipartThreshold: 64 * 1024 * 1024,
+      partSize: 8 * 1024 * 1024,
+      uploadConcurrency: 4,
+      deleteConcurrency: 4,
+      directoryMarkers: false,
+      cache: {},
+      coherence: "none",
+      revalidateAfter: 60 * 1000,
+      lockPrefix: ".locks/",
+      trash: false,
+      trashPrefix: ".trash/",
+      defaultHeaders: {},
+      contentTypes: {},
+      aclMapping: defaultAclMapping,
+      storageClasses: {},
+      encryption: {},
       ...options,
     };
+    this.customerKey = this.parseCustomerKey(this.options.encryption);
+    for (const [extension, contentType] of Object.entries(
+      this.options.contentTypes,
+    )) {
+      this.registerContentType(extension, contentType);
+    }
+    this.cache = this.options.cacheStore ?? new MemoryCache(this.options.cache);
 
     this.s3 = new S3Client({
       region: this.options.region,
@@ -92,127 +615,950 @@ export class S3FileSystem implements IAsyncFileSystem {
 
   /**
    * Check if a file exists in S3
+   *
+   * On versioned buckets a deleted file's latest version is a delete
+   * marker, which counts as not existing - as does a version that is one.
    * @param path File path in the bucket
+   * @param options Version to check instead of the latest
    */
-  async exists(path: string): Promise<boolean> {
+  async exists(path: string, options: VersionOptions = {}): Promise<boolean> {
     try {
       const key = this.getS3Key(path);
 
+      if (options.versionId) {
+        return (await this.headVersion(key, options.versionId)) !== null;
+      }
+
       // Check cache first
-      if (this.cache.has(key)) {
+      const cached = await this.cache.get(this.cacheKey(key));
+      if (cached && !this.needsRevalidation(cached)) {
         return true;
       }
 
       // Check S3
-      const response = await this.s3.send(
-        new HeadObjectCommand({
-          Bucket: this.options.bucket,
-          Key: key,
-        }),
-      );
+      return (await this.headObject(key, cached)) !== null;
+    } catch (error: unknown) {
+      throw new Error(`Failed to check file existence for ${path}: ${error}`);
+    }
+  }
 
-      if (response) {
-        // Cache metadata
-        this.cache.set(key, {
-          size: response.ContentLength || 0,
-          lastModified: response.LastModified || new Date(),
-          etag: response.ETag || "",
+  /**
+   * Read a file from S3 as text
+   * @param path File path in the bucket
+   * @param options Text encoding (defaults to utf8) or read options
+   */
+  async readFile(
+    path: string,
+    options: BufferEncoding | ReadFileOptions = "utf8",
+  ): Promise<string> {
+    const { encoding = "utf8", ...version } =
+      typeof options === "string" ? { encoding: options } : options;
+    const content = await this.readFileBuffer(path, version);
+    return content.toString(encoding);
+  }
+
+  /**
+   * Read a file from S3 as raw bytes
+   * @param path File path in the bucket
+   * @param options Version to read instead of the latest
+   */
+  async readFileBuffer(
+    path: string,
+    options: VersionOptions = {},
+  ): Promise<Buffer> {
+    const object = await this.readObject(path, options.versionId);
+    if (!object) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return object.content;
+  }
+
+  /**
+   * Read and parse a JSON document
+   * @param path File path in the bucket
+   * @param options Validation hook returning the typed document
+   */
+  async readJSON<T = unknown>(
+    path: string,
+    options: ReadJSONOptions<T> = {},
+  ): Promise<T> {
+    const content = await this.readFileBuffer(path);
+    return this.parseJSON(path, content, options.validate);
+  }
+
+  /**
+   * Serialise and write a JSON document
+   * @param path File path in the bucket
+   * @param value Document to write
+   * @param options Validation hook, indentation and conditional write options
+   * @returns The new object's ETag
+   */
+  async writeJSON<T>(
+    path: string,
+    value: T,
+    options: WriteJSONOptions<T> = {},
+  ): Promise<WriteResult> {
+    const { validate, space, ...writeOptions } = options;
+    const document = validate
+      ? this.validateJSON(path, value, validate)
+      : value;
+    return this.writeFile(
+      path,
+      JSON.stringify(document, null, space),
+      writeOptions,
+    );
+  }
+
+  /**
+   * Atomically read, modify and write back a JSON document
+   *
+   * The document is written with `If-Match` on the ETag it was read
+   * with (or `If-None-Match: *` when it doesn't exist yet). When another
+   * writer got there first, the document is read again and the mutator
+   * re-applied, with exponential backoff between attempts.
+   * @param path File path in the bucket
+   * @param mutator Builds the new document from the current one (undefined when missing)
+   * @param options Retry count, validation hook and indentation
+   * @returns The document that was written
+   */
+  async update<T>(
+    path: string,
+    mutator: (current: T | undefined) => T | Promise<T>,
+    options: UpdateOptions<T> = {},
+  ): Promise<T> {
+    const attempts = Math.max(0, options.retries ?? 5) + 1;
+
+    for (let attempt = 1; ; attempt++) {
+      const current = await this.readObject(path);
+      const value = current
+        ? this.parseJSON(path, current.content, options.validate)
+        : undefined;
+      const next = await mutator(value);
+
+      try {
+        await this.writeJSON(path, next, {
+          validate: options.validate,
+          space: options.space,
+          ...(current ? { ifMatch: current.etag } : { ifNoneMatch: "*" }),
         });
-        return true;
+        return next;
+      } catch (error: unknown) {
+        if (!(error instanceof PreconditionFailed) || attempt >= attempts) {
+          throw error;
+        }
+        // Jitter keeps competing writers from colliding in lockstep
+        await delay(50 * 2 ** (attempt - 1) * (1 + Math.random()));
+      }
+    }
+  }
+
+  /**
+   * Acquire a named lock shared by every process using the bucket
+   *
+   * The lock object is created with a create-only conditional write and
+   * holds the owner and lease expiry. An expired lease is taken over with
+   * a write conditional on the ETag that was read, so only one of several
+   * competing processes can steal it. Expiry is judged by the local clock.
+   * @param name Lock name
+   * @param options Lease duration, owner and how long to wait
+   * @throws LockHeld when the lock is still held after `wait`
+   */
+  async acquireLock(name: string, options: LockOptions = {}): Promise<S3Lock> {
+    const ttl = options.ttl ?? 60 * 1000;
+    const owner =
+      options.owner ?? `${hostname()}:${process.pid}:${randomUUID()}`;
+    const path = `${this.options.lockPrefix}${name}.lock`;
+    const deadline = Date.now() + (options.wait ?? 0);
+
+    for (;;) {
+      const expiresAt = new Date(Date.now() + ttl);
+      const info: LockInfo = { owner, expiresAt: expiresAt.toISOString() };
+      const lease = { name, path, owner, ttl, expiresAt };
+
+      try {
+        const { etag } = await this.writeJSON(path, info, {
+          ifNoneMatch: "*",
+        });
+        return new S3Lock(this, { ...lease, etag }, (current) =>
+          this.deleteLock(path, current),
+        );
+      } catch (error: unknown) {
+        if (!(error instanceof PreconditionFailed)) {
+          throw error;
+        }
       }
 
-      return false;
+      // Someone holds it - released in the meantime, expired or valid
+      const current = await this.readObject(path);
+      if (!current) {
+        continue;
+      }
+      const holder = this.parseJSON<LockInfo>(path, current.content);
+      const heldUntil = new Date(holder.expiresAt);
+
+      if (heldUntil.getTime() <= Date.now()) {
+        try {
+          const { etag } = await this.writeJSON(path, info, {
+            ifMatch: current.etag,
+          });
+          return new S3Lock(this, { ...lease, etag }, (latest) =>
+            this.deleteLock(path, latest),
+          );
+        } catch (error: unknown) {
+          // Another process stole the expired lease first
+          if (!(error instanceof PreconditionFailed)) {
+            throw error;
+          }
+        }
+      } else if (Date.now() >= deadline) {
+        throw new LockHeld(name, holder.owner, heldUntil);
+      } else {
+        await delay(
+          Math.min(
+            options.retryInterval ?? 1000,
+            Math.max(deadline - Date.now(), 0),
+          ),
+        );
+      }
+    }
+  }
+
+  /**
+   * Delete a lock object if it still has the ETag its holder wrote
+   *
+   * Unlike deleteFile this bypasses the trash and reports every failure,
+   * so a lock is never considered released when the delete didn't happen.
+   * @param path Lock object path
+   * @param etag ETag the holder last wrote
+   * @returns false when the lease had already been taken over
+   */
+  private async deleteLock(path: string, etag: string): Promise<boolean> {
+    const key = this.getS3Key(path);
+
+    try {
+      await this.s3.send(
+        new DeleteObjectCommand({
+          Bucket: this.options.bucket,
+          Key: key,
+          IfMatch: etag,
+        }),
+      );
+      await this.cache.delete(this.cacheKey(key));
+      return true;
     } catch (error: unknown) {
-      if (this.isNotFoundError(error)) {
+      if (
+        this.isPreconditionFailedError(error) ||
+        this.isNotFoundError(error)
+      ) {
+        await this.cache.delete(this.cacheKey(key));
         return false;
       }
-      throw new Error(`Failed to check file existence for ${path}: ${error}`);
+      throw new Error(`Failed to release lock ${path}: ${error}`);
     }
   }
 
   /**
-   * Read a file from S3
+   * Read an object's content together with its ETag
    * @param path File path in the bucket
+   * @param versionId Version to read instead of the latest
+   * @returns Content and ETag, or null when the object doesn't exist
    */
-  async readFile(path: string): Promise<string> {
+  private async readObject(
+    path: string,
+    versionId?: string,
+  ): Promise<{ content: Buffer; etag: string } | null> {
+    const key = this.getS3Key(path);
+
     try {
-      const key = this.getS3Key(path);
+      // The cache only tracks latest versions
+      if (versionId) {
+        const response = await this.s3.send(
+          new GetObjectCommand({
+            Bucket: this.options.bucket,
+            Key: key,
+            VersionId: versionId,
+            ...this.customerKeyParams(),
+          }),
+        );
+        const content = response.Body
+          ? await this.bodyToBuffer(response.Body)
+          : Buffer.alloc(0);
+        return { content, etag: response.ETag || "" };
+      }
 
       // Check cache first
-      const cached = this.cache.get(key);
-      if (cached?.content) {
-        return cached.content;
+      const cached = await this.cache.get(this.cacheKey(key));
+      // Callers get copies, so changing a result can't corrupt the cache
+      if (cached?.content && !this.needsRevalidation(cached)) {
+        return { content: Buffer.from(cached.content), etag: cached.etag };
       }
 
-      // Fetch from S3
-      const response = await this.s3.send(
-        new GetObjectCommand({
-          Bucket: this.options.bucket,
-          Key: key,
-        }),
-      );
+      // Fetch from S3, or just confirm that cached content is current
+      let response: GetObjectCommandOutput;
+      try {
+        response = await this.s3.send(
+          new GetObjectCommand({
+            Bucket: this.options.bucket,
+            Key: key,
+            IfNoneMatch: (cached?.content && cached.etag) || undefined,
+            ...this.customerKeyParams(),
+          }),
+        );
+      } catch (error: unknown) {
+        if (cached?.content && this.isNotModifiedError(error)) {
+          await this.cacheFetched(key, { ...cached, cachedAt: Date.now() });
+          return { content: Buffer.from(cached.content), etag: cached.etag };
+        }
+        throw error;
+      }
 
       // Handle empty files - response.Body might be undefined or empty
       const content = response.Body
-        ? await this.bodyToString(response.Body)
-        : "";
+        ? await this.bodyToBuffer(response.Body)
+        : Buffer.alloc(0);
 
       // Cache the file
-      this.cache.set(key, {
+      const etag = response.ETag || "";
+      await this.cacheFetched(key, {
         content,
         size: response.ContentLength || content.length,
         lastModified: response.LastModified || new Date(),
-        etag: response.ETag || "",
+        etag,
+        details: {
+          ...this.objectDetails(response),
+          // ACL changes keep the ETag, so a known ACL still applies
+          acl: cached?.etag === etag ? cached.details?.acl : undefined,
+        },
       });
 
-      return content;
+      return { content: Buffer.from(content), etag };
     } catch (error: unknown) {
+      if (
+        versionId &&
+        (this.isNotFoundError(error) || this.isDeleteMarkerError(error))
+      ) {
+        return null;
+      }
       if (this.isNotFoundError(error)) {
-        throw new Error(`File not found: ${path}`);
+        await this.cache.delete(this.cacheKey(key));
+        return null;
+      }
+      if (this.isArchivedError(error)) {
+        throw new ObjectArchived(path, error.StorageClass ?? "GLACIER");
       }
       throw new Error(`Failed to read file ${path}: ${error}`);
     }
   }
 
   /**
-   * Write a file to S3
+   * Read a byte range of a file without downloading the whole object
+   *
+   * `end` is inclusive and defaults to the end of the object. A negative
+   * `start` reads that many bytes from the end (e.g. -1024 for the tail).
    * @param path File path in the bucket
-   * @param data File content
+   * @param start Offset of the first byte
+   * @param end Offset of the last byte (inclusive)
    */
-  async writeFile(path: string, data: string): Promise<void> {
-    if (data === undefined || data === null) {
-      throw new Error("Data parameter is required");
+  async readRange(
+    path: string,
+    start: number,
+    end?: number,
+  ): Promise<RangeReadResult> {
+    if (end !== undefined && (start < 0 || end < start)) {
+      throw new Error(`Invalid range ${start}-${end} for ${path}`);
     }
 
     try {
       const key = this.getS3Key(path);
 
+      // Serve from cached content when we have the whole object
+      const cached = await this.cache.get(this.cacheKey(key));
+      if (cached?.content && !this.needsRevalidation(cached)) {
+        return this.sliceRange(cached.content, start, end);
+      }
+
       const response = await this.s3.send(
-        new PutObjectCommand({
+        new GetObjectCommand({
           Bucket: this.options.bucket,
           Key: key,
-          Body: data,
-          ContentType: this.getContentType(path),
+          Range: this.formatRange(start, end),
+          ...this.customerKeyParams(),
         }),
       );
 
-      // Update cache
-      this.cache.set(key, {
-        content: data,
-        size: Buffer.byteLength(data, "utf8"),
-        lastModified: new Date(),
+      const data = response.Body
+        ? await this.bodyToBuffer(response.Body)
+        : Buffer.alloc(0);
+      const range = this.parseContentRange(response.ContentRange);
+      const size = range?.size ?? cached?.size ?? data.length;
+
+      await this.syncCachedMetadata(key, {
+        size,
+        lastModified: response.LastModified || new Date(),
         etag: response.ETag || "",
+        details: this.objectDetails(response),
       });
+
+      const first =
+        range?.start ?? Math.max(start < 0 ? size + start : start, 0);
+      return { data, start: first, end: first + data.length - 1, size };
     } catch (error: unknown) {
-      throw new Error(`Failed to write file ${path}: ${error}`);
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      if (this.isArchivedError(error)) {
+        throw new ObjectArchived(path, error.StorageClass ?? "GLACIER");
+      }
+      if (this.isInvalidRangeError(error)) {
+        // Range starts past the end of the object - nothing to return
+        const { size } = await this.stat(path);
+        return { data: Buffer.alloc(0), start, end: start - 1, size };
+      }
+      throw new Error(`Failed to read range of ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Read up to `length` bytes starting at `offset`
+   * @param path File path in the bucket
+   * @param offset Offset of the first byte
+   * @param length Number of bytes to read
+   */
+  async read(
+    path: string,
+    offset: number,
+    length: number,
+  ): Promise<RangeReadResult> {
+    if (offset < 0 || length < 0) {
+      throw new Error(
+        `Invalid read of ${length} bytes at ${offset} for ${path}`,
+      );
+    }
+    if (length === 0) {
+      const { size } = await this.stat(path);
+      return { data: Buffer.alloc(0), start: offset, end: offset - 1, size };
+    }
+    return this.readRange(path, offset, offset + length - 1);
+  }
+
+  /**
+   * Write a text file to S3
+   * @param path File path in the bucket
+   * @param data Text content
+   * @param options Text encoding (defaults to utf8) or write options
+   * @returns The new object's ETag
+   */
+  async writeFile(
+    path: string,
+    data: string,
+    options: BufferEncoding | WriteFileOptions = "utf8",
+  ): Promise<WriteResult> {
+    if (data === undefined || data === null) {
+      throw new Error("Data parameter is required");
+    }
+
+    const writeOptions =
+      typeof options === "string" ? { encoding: options } : options;
+    return this.writeFileBuffer(
+      path,
+      Buffer.from(data, writeOptions.encoding ?? "utf8"),
+      writeOptions,
+    );
+  }
+
+  /**
+   * Write raw bytes to S3
+   *
+   * `ifMatch` and `ifNoneMatch` make the write conditional; when the
+   * condition doesn't hold a PreconditionFailed error is thrown and
+   * nothing is written.
+   * @param path File path in the bucket
+   * @param data Binary file content
+   * @param options Conditional write options
+   * @returns The new object's ETag
+   */
+  async writeFileBuffer(
+    path: string,
+    data: Uint8Array,
+    options: WriteFileOptions = {},
+  ): Promise<WriteResult> {
+    if (data === undefined || data === null) {
+      throw new Error("Data parameter is required");
+    }
+
+    const key = this.getS3Key(path);
+    const conditions = {
+      IfMatch: options.ifMatch,
+      IfNoneMatch: options.ifNoneMatch,
+    };
+
+    try {
+      const content = Buffer.from(data);
+      const headers = {
+        ...this.getObjectHeaders(path, options),
+        Metadata: options.metadata,
+      };
+
+      let etag: string | undefined;
+      let details = this.writtenDetails({
+        ...headers,
+        ...this.encryptionParams(),
+      });
+
+      if (content.length > this.options.multipartThreshold) {
+        // PutObject caps at 5 GB - large payloads go through multipart
+        const upload = this.createMultipartUpload(path, key, {
+          objectParams: headers,
+          completeParams: conditions,
+        });
+        ({ etag } = await upload.upload(bufferSource(content)));
+      } else {
+        const response = await this.s3.send(
+          new PutObjectCommand({
+            Bucket: this.options.bucket,
+            Key: key,
+            Body: content,
+            ...headers,
+            ...this.encryptionParams(),
+            ...conditions,
+          }),
+        );
+        etag = response.ETag;
+        details = this.writtenDetails({
+          ...headers,
+          ...this.encryptionParams(),
+          ...response,
+        });
+      }
+
+      // Update cache
+      await this.cache.set(this.cacheKey(key), {
+        content,
+        size: content.length,
+        lastModified: new Date(),
+        etag: etag || "",
+        details,
+      });
+
+      return { etag: etag || "" };
+    } catch (error: unknown) {
+      if (
+        (options.ifMatch || options.ifNoneMatch) &&
+        this.isPreconditionFailedError(error)
+      ) {
+        // Someone else changed the object - our cached copy is stale
+        await this.cache.delete(this.cacheKey(key));
+        throw new PreconditionFailed(
+          path,
+          options.ifMatch
+            ? `ETag is no longer ${options.ifMatch}`
+            : "object already exists",
+        );
+      }
+      throw new Error(`Failed to write file ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Upload data with a multipart upload
+   *
+   * Parts are sent in parallel; pass `onCheckpoint` to persist the upload
+   * state and `resume` to continue it after a crash.
+   * @param path File path in the bucket
+   * @param data Data to upload
+   * @param options Part size, parallelism, progress and resume options
+   */
+  async uploadMultipart(
+    path: string,
+    data: Uint8Array,
+    options: MultipartUploadOptions = {},
+  ): Promise<MultipartUploadResult> {
+    return this.runMultipartUpload(path, bufferSource(data), options);
+  }
+
+  /**
+   * Upload a local file with a multipart upload, reading one part at a time
+   * @param localPath Path of the local file
+   * @param path File path in the bucket
+   * @param options Part size, parallelism, progress and resume options
+   */
+  async uploadFile(
+    localPath: string,
+    path: string,
+    options: MultipartUploadOptions = {},
+  ): Promise<MultipartUploadResult> {
+    let source: PartSource;
+    try {
+      source = await fileSource(localPath);
+    } catch (error: unknown) {
+      throw new Error(`Failed to upload file ${path}: ${error}`);
+    }
+    return this.runMultipartUpload(path, source, options);
+  }
+
+  /**
+   * List multipart uploads under the configured prefix that were never finished
+   */
+  async listIncompleteUploads(): Promise<IncompleteUpload[]> {
+    try {
+      const prefix = this.getS3Key("");
+      const uploads: IncompleteUpload[] = [];
+      let keyMarker: string | undefined;
+      let uploadIdMarker: string | undefined;
+
+      do {
+        const response = await this.s3.send(
+          new ListMultipartUploadsCommand({
+            Bucket: this.options.bucket,
+            Prefix: prefix || undefined,
+            KeyMarker: keyMarker,
+            UploadIdMarker: uploadIdMarker,
+          }),
+        );
+
+        for (const upload of response.Uploads || []) {
+          if (upload.Key && upload.UploadId) {
+            uploads.push({
+              key: upload.Key,
+              uploadId: upload.UploadId,
+              initiated: upload.Initiated || new Date(0),
+            });
+          }
+        }
+
+        keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+        uploadIdMarker = response.IsTruncated
+          ? response.NextUploadIdMarker
+          : undefined;
+      } while (keyMarker);
+
+      return uploads;
+    } catch (error: unknown) {
+      throw new Error(`Failed to list incomplete uploads: ${error}`);
+    }
+  }
+
+  /**
+   * Abort incomplete multipart uploads under the configured prefix
+   * @param olderThan Minimum age in milliseconds (defaults to 24 hours)
+   */
+  async abortStaleUploads(
+    olderThan = 24 * 60 * 60 * 1000,
+  ): Promise<IncompleteUpload[]> {
+    const cutoff = Date.now() - olderThan;
+    const stale = (await this.listIncompleteUploads()).filter(
+      (upload) => upload.initiated.getTime() <= cutoff,
+    );
+
+    try {
+      for (const upload of stale) {
+        await this.s3.send(
+          new AbortMultipartUploadCommand({
+            Bucket: this.options.bucket,
+            Key: upload.key,
+            UploadId: upload.uploadId,
+          }),
+        );
+      }
+    } catch (error: unknown) {
+      throw new Error(`Failed to abort stale uploads: ${error}`);
+    }
+
+    return stale;
+  }
+
+  /**
+   * Open a readable stream over an S3 object without buffering it
+   * @param path File path in the bucket
+   * @param options Optional inclusive byte range
+   */
+  createReadStream(path: string, options: S3ReadStreamOptions = {}): Readable {
+    const key = this.getS3Key(path);
+    const output = new PassThrough();
+    const ranged = options.start !== undefined || options.end !== undefined;
+
+    this.s3
+      .send(
+        new GetObjectCommand({
+          Bucket: this.options.bucket,
+          Key: key,
+          Range: ranged
+            ? this.formatRange(options.start ?? 0, options.end)
+            : undefined,
+          ...this.customerKeyParams(),
+        }),
+      )
+      .then(async (response) => {
+        // Cache metadata only - the content is never held in memory
+        await this.syncCachedMetadata(key, {
+          size: ranged
+            ? (this.parseContentRange(response.ContentRange)?.size ?? 0)
+            : response.ContentLength || 0,
+          lastModified: response.LastModified || new Date(),
+          etag: response.ETag || "",
+          details: this.objectDetails(response),
+        });
+
+        const body = bodyToReadable(response.Body);
+        // Consumers that stop early must release the HTTP connection
+        if (output.destroyed) {
+          body.destroy();
+          return;
+        }
+        body.on("error", (error) =>
+          output.destroy(new Error(`Failed to read file ${path}: ${error}`)),
+        );
+        output.on("close", () => body.destroy());
+        body.pipe(output);
+      })
+      .catch((error: unknown) => {
+        output.destroy(
+          this.isNotFoundError(error)
+            ? new Error(`File not found: ${path}`)
+            : new Error(`Failed to read file ${path}: ${error}`),
+        );
+      });
+
+    return output;
+  }
+
+  /**
+   * Open a writable stream that uploads to S3 part by part
+   * @param path File path in the bucket
+   * @param options Part size and content type overrides
+   */
+  createWriteStream(
+    path: string,
+    options: S3WriteStreamOptions & ObjectHeaderOptions = {},
+  ): S3WriteStream {
+    const key = this.getS3Key(path);
+    const { ContentType, ...headers } = this.getObjectHeaders(path, options);
+    const objectParams = {
+      ...headers,
+      ...this.encryptionParams(),
+      ...options.objectParams,
+    };
+
+    return new S3WriteStream({
+      client: this.s3,
+      bucket: this.options.bucket,
+      key,
+      partSize: options.partSize ?? this.options.partSize,
+      contentType: ContentType,
+      objectParams,
+      // Replaces any cached content, which is stale once the upload lands
+      onComplete: async ({ size, etag }) => {
+        await this.cache.set(this.cacheKey(key), {
+          size,
+          lastModified: new Date(),
+          etag,
+          details: this.writtenDetails({ ContentType, ...objectParams }),
+        });
+      },
+    });
+  }
+
+  /**
+   * Copy a file server side without downloading it
+   *
+   * Uses CopyObject, or parallel UploadPartCopy requests for objects
+   * above 5 GiB. Metadata and content headers are preserved.
+   * @param src Source file path
+   * @param dest Destination file path
+   */
+  async copyFile(src: string, dest: string): Promise<void> {
+    try {
+      const sourceKey = this.getS3Key(src);
+      await this.copyKey(
+        sourceKey,
+        this.getS3Key(dest),
+        (await this.cache.peek(this.cacheKey(sourceKey)))?.size,
+      );
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${src}`);
+      }
+      throw new Error(`Failed to copy file ${src} to ${dest}: ${error}`);
+    }
+  }
+
+  /**
+   * Move a file with a server-side copy followed by a delete
+   * @param src Source file path
+   * @param dest Destination file path
+   */
+  async rename(src: string, dest: string): Promise<void> {
+    if (this.getS3Key(src) === this.getS3Key(dest)) {
+      return;
+    }
+
+    await this.copyFile(src, dest);
+
+    try {
+      const sourceKey = this.getS3Key(src);
+      await this.s3.send(
+        new DeleteObjectCommand({
+          Bucket: this.options.bucket,
+          Key: sourceKey,
+        }),
+      );
+      await this.cache.delete(this.cacheKey(sourceKey));
+    } catch (error: unknown) {
+      throw new Error(`Failed to rename ${src} to ${dest}: ${error}`);
+    }
+  }
+
+  /**
+   * Recursively copy a directory, optionally into another bucket or instance
+   *
+   * Objects are copied server side when both filesystems can reach each
+   * other's buckets (same instance, or same endpoint and explicit
+   * credentials);
+   * otherwise each object is streamed from this instance to the target.
+   * @param src Source directory path
+   * @param dest Destination directory path (in the target filesystem)
+   * @param options Target, concurrency and progress options
+   */
+  async copyDir(
+    src: string,
+    dest: string,
+    options: TransferOptions = {},
+  ): Promise<TransferResult> {
+    return (await this.transferDir(src, dest, options)).result;
+  }
+
+  /**
+   * Copy a directory and report which source keys were copied
+   * @param src Source directory path
+   * @param dest Destination directory path (in the target filesystem)
+   * @param options Target, concurrency and progress options
+   */
+  private async transferDir(
+    src: string,
+    dest: string,
+    options: TransferOptions,
+  ): Promise<{ result: TransferResult; sourceKeys: string[] }> {
+    const target = options.target ?? this;
+    const serverSide = options.serverSide ?? this.sharesAccountWith(target);
+    const sourcePrefix = this.getDirPrefix(src);
+    const destDir = dest.replace(/\/+$/, "");
+
+    if (target === this && this.getDirPrefix(dest).startsWith(sourcePrefix)) {
+      throw new Error(`Cannot copy directory ${src} into itself (${dest})`);
+    }
+
+    try {
+      // Snapshot the source first so objects written during the copy
+      // (or into an overlapping destination) are not picked up
+      const sources: { key: string; size: number }[] = [];
+      for await (const page of this.listPages(sourcePrefix)) {
+        for (const object of page.Contents || []) {
+          if (object.Key) {
+            sources.push({ key: object.Key, size: object.Size || 0 });
+          }
+        }
+      }
+
+      const bytesTotal = sources.reduce((total, item) => total + item.size, 0);
+      let bytesDone = 0;
+      let filesDone = 0;
+
+      const copied = await mapWithConcurrency(
+        sources,
+        options.concurrency ?? 8,
+        async ({ key, size }) => {
+          const inner = key.slice(sourcePrefix.length);
+          const destPath = destDir ? `${destDir}/${inner}` : inner;
+
+          if (serverSide) {
+            await this.copyKey(key, target.getS3Key(destPath), size, target);
+          } else {
+            await pipeline(
+              this.createReadStream(this.getRelativePath(key)),
+              target.createWriteStream(destPath),
+            );
+          }
+
+          bytesDone += size;
+          filesDone++;
+          options.onProgress?.({
+            path: this.getRelativePath(key),
+            filesDone,
+            filesTotal: sources.length,
+            bytesDone,
+            bytesTotal,
+          });
+          return { key: target.getS3Key(destPath), path: destPath, size };
+        },
+      );
+
+      await target.verifyKeys(target.getDirPrefix(dest), copied);
+
+      return {
+        result: {
+          copied: copied.map((item) => item.path),
+          bytes: bytesTotal,
+          mode: serverSide ? "server-side" : "stream",
+        },
+        sourceKeys: sources.map((item) => item.key),
+      };
+    } catch (error: unknown) {
+      throw new Error(`Failed to copy directory ${src} to ${dest}: ${error}`);
+    }
+  }
+
+  /**
+   * Recursively move a directory, optionally into another bucket or instance
+   *
+   * The source is deleted only after every object has been copied and
+   * the destination listing confirms them with matching sizes.
+   * @param src Source directory path
+   * @param dest Destination directory path (in the target filesystem)
+   * @param options Target, concurrency and progress options
+   */
+  async moveDir(
+    src: string,
+    dest: string,
+    options: TransferOptions = {},
+  ): Promise<TransferResult> {
+    const { result, sourceKeys } = await this.transferDir(src, dest, options);
+
+    try {
+      // Only the copied snapshot - objects written since stay in place
+      const deleted = await this.deleteKeys(this.keyBatches(sourceKeys));
+      return { ...result, deleted };
+    } catch (error: unknown) {
+      throw new Error(`Failed to move directory ${src} to ${dest}: ${error}`);
     }
   }
 
   /**
    * Delete a file from S3
+   *
+   * With `ifMatch` a PreconditionFailed error is thrown when the object
+   * has changed; other errors are ignored since deletes are idempotent.
+   * In trash mode the file is copied into the trash first, unless it is
+   * already there or is a lock object.
    * @param path File path in the bucket
+   * @param options Conditional delete options
    */
-  async deleteFile(path: string): Promise<void> {
+  async deleteFile(
+    path: string,
+    options: DeleteFileOptions = {},
+  ): Promise<void> {
+    let trashKey: string | undefined;
+
+    if (this.options.trash && !this.bypassesTrash(this.getS3Key(path))) {
+      try {
+        trashKey = await this.copyToTrash(this.getS3Key(path), Date.now());
+      } catch (error: unknown) {
+        // Nothing to keep - the delete below is a no-op
+        if (!this.isNotFoundError(error)) {
+          throw new Error(`Failed to move ${path} to the trash: ${error}`);
+        }
+      }
+    }
+
     try {
       const key = this.getS3Key(path);
 
@@ -220,191 +1566,1812 @@ export class S3FileSystem implements IAsyncFileSystem {
         new DeleteObjectCommand({
           Bucket: this.options.bucket,
           Key: key,
+          IfMatch: options.ifMatch,
         }),
       );
 
       // Remove from cache
-      this.cache.delete(key);
+      await this.cache.delete(this.cacheKey(key));
     } catch (error: unknown) {
+      if (options.ifMatch && this.isPreconditionFailedError(error)) {
+        await this.cache.delete(this.cacheKey(this.getS3Key(path)));
+        if (trashKey) {
+          // The file stays, so its trashed copy is not needed
+          await this.s3
+            .send(
+              new DeleteObjectCommand({
+                Bucket: this.options.bucket,
+                Key: trashKey,
+              }),
+            )
+            .catch(() => undefined);
+        }
+        throw new PreconditionFailed(
+          path,
+          `ETag is no longer ${options.ifMatch}`,
+        );
+      }
+
       // S3 delete is idempotent - doesn't fail if object doesn't exist
       // But we still remove from cache just in case
-      this.cache.delete(this.getS3Key(path));
+      await this.cache.delete(this.cacheKey(this.getS3Key(path)));
     }
   }
 
   /**
    * Delete a directory (delete all objects with prefix)
+   *
+   * Objects are removed with batched DeleteObjects requests. Keys that
+   * fail are reported in the result rather than thrown. In trash mode
+   * objects are moved into the trash; a trash inside the directory is
+   * left alone.
    * @param path Directory path
    */
-  async deleteDir(path: string): Promise<void> {
+  async deleteDir(path: string): Promise<DeleteResult> {
+    try {
+      const prefix = this.getDirPrefix(path);
+      return await this.discardKeys(this.listKeys(prefix), prefix);
+    } catch (error: unknown) {
+      throw new Error(`Failed to delete directory ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Delete everything inside a directory while keeping the directory itself
+   * @param dirPath Directory path
+   */
+  async clear(dirPath: string): Promise<DeleteResult> {
     try {
-      const prefix = this.getS3Key(path);
-      const normalizedPrefix = prefix.endsWith("/") ? prefix : `${prefix}/`;
+      const prefix = this.getDirPrefix(dirPath);
+      return await this.discardKeys(this.listKeys(prefix, [prefix]), prefix);
+    } catch (error: unknown) {
+      throw new Error(`Failed to clear directory ${dirPath}: ${error}`);
+    }
+  }
 
-      // List all objects with the prefix
-      const response = await this.s3.send(
-        new ListObjectsV2Command({
-          Bucket: this.options.bucket,
-          Prefix: normalizedPrefix,
+  /**
+   * Delete several files with batched DeleteObjects requests
+   * @param paths File paths in the bucket
+   */
+  async deleteFiles(paths: string[]): Promise<DeleteResult> {
+    return this.discardKeys(
+      this.keyBatches(paths.map((path) => this.getS3Key(path))),
+    );
+  }
+
+  /**
+   * List the files in the trash, oldest deletion first
+   */
+  async listTrash(): Promise<TrashEntry[]> {
+    const entries: TrashEntry[] = [];
+
+    try {
+      for await (const page of this.listPages(this.getTrashRoot())) {
+        for (const object of page.Contents || []) {
+          const trashed = object.Key ? this.parseTrashKey(object.Key) : null;
+          if (object.Key && trashed) {
+            entries.push({
+              path: this.getRelativePath(object.Key),
+              originalPath: trashed.originalPath,
+              deletedAt: trashed.deletedAt,
+              size: object.Size || 0,
+            });
+          }
+        }
+      }
+    } catch (error: unknown) {
+      throw new Error(`Failed to list trash: ${error}`);
+    }
+
+    return entries;
+  }
+
+  /**
+   * Move a trashed file back to the path it was deleted from
+   * @param path Path of the trashed copy, as reported by listTrash
+   * @param options Whether to replace a file now at the original path
+   * @returns The path the file was restored to
+   */
+  async restoreFromTrash(
+    path: string,
+    options: RestoreFromTrashOptions = {},
+  ): Promise<string> {
+    const key = this.getS3Key(path);
+    const trashed = this.parseTrashKey(key);
+    if (!trashed) {
+      throw new Error(`Not a file in the trash: ${path}`);
+    }
+
+    const { originalPath } = trashed;
+    if (!options.overwrite && (await this.exists(originalPath))) {
+      throw new Error(`Cannot restore ${path}: ${originalPath} already exists`);
+    }
+
+    try {
+      await this.copyKey(
+        key,
+        this.getS3Key(originalPath),
+        undefined,
+        this,
+        (source) => ({
+          Metadata: Object.fromEntries(
+            Object.entries(source.Metadata ?? {}).filter(
+              ([name]) => name !== TRASH_PATH_METADATA,
+            ),
+          ),
         }),
       );
+      await this.s3.send(
+        new DeleteObjectCommand({ Bucket: this.options.bucket, Key: key }),
+      );
+      await this.cache.delete(this.cacheKey(key));
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw new Error(`Failed to restore ${path} from the trash: ${error}`);
+    }
+
+    return originalPath;
+  }
+
+  /**
+   * Permanently delete files from the trash
+   *
+   * Keys that don't follow the trash layout have no known age, so they
+   * are only purged when no `olderThan` is given.
+   * @param options Minimum age of the deletions to purge
+   */
+  async emptyTrash(options: EmptyTrashOptions = {}): Promise<DeleteResult> {
+    const cutoff = Date.now() - (options.olderThan ?? 0);
+    const trashed = this.listKeys(this.getTrashRoot());
+    const isExpired = (key: string) => {
+      const entry = this.parseTrashKey(key);
+      return entry
+        ? entry.deletedAt.getTime() <= cutoff
+        : options.olderThan === undefined;
+    };
 
-      if (!response.Contents || response.Contents.length === 0) {
-        return; // Nothing to delete
+    async function* expired(): AsyncGenerator<string[]> {
+      for await (const keys of trashed) {
+        yield keys.filter(isExpired);
       }
+    }
 
-      // Delete each object
-      for (const object of response.Contents) {
-        if (object.Key) {
-          await this.s3.send(
-            new DeleteObjectCommand({
-              Bucket: this.options.bucket,
-              Key: object.Key,
-            }),
-          );
+    try {
+      return await this.deleteKeys(expired());
+    } catch (error: unknown) {
+      throw new Error(`Failed to empty trash: ${error}`);
+    }
+  }
+
+  /**
+   * Synchronise a local directory with a directory in S3 (rsync-like)
+   *
+   * Only files that differ are transferred; with `delete` extraneous
+   * destination files are removed. Use `dryRun` to get the change plan
+   * without touching anything.
+   * @param localDir Local directory
+   * @param s3Dir Directory path in the bucket
+   * @param options Direction, deletion, dry run and comparison options
+   */
+  async sync(
+    localDir: string,
+    s3Dir: string,
+    options: SyncOptions = {},
+  ): Promise<SyncResult> {
+    try {
+      // The trash and lock objects belong to this filesystem, not the data
+      return await syncDirectories(this, localDir, s3Dir, options, [
+        this.getRelativePath(this.getTrashRoot()),
+        this.getRelativePath(this.getLockRoot()),
+      ]);
+    } catch (error: unknown) {
+      throw new Error(`Failed to sync ${localDir} with ${s3Dir}: ${error}`);
+    }
+  }
+
+  /**
+   * Ensure a directory exists
+   *
+   * S3 directories are implicit through object keys, so this is a no-op
+   * unless `directoryMarkers` is enabled, in which case a zero-byte
+   * "dir/" object is created so that empty directories can exist.
+   * @param dirPath Directory path
+   */
+  async ensureDir(dirPath: string): Promise<void> {
+    const prefix = this.getDirPrefix(dirPath);
+    if (!this.options.directoryMarkers || prefix === this.getDirPrefix("")) {
+      return;
+    }
+
+    try {
+      await this.s3.send(
+        new PutObjectCommand({
+          Bucket: this.options.bucket,
+          Key: prefix,
+          Body: "",
+          ContentType: "application/x-directory",
+          ...this.encryptionParams(),
+        }),
+      );
+    } catch (error: unknown) {
+      throw new Error(`Failed to create directory ${dirPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Read directory contents
+   * @param dirPath Directory path
+   */
+  async readDir(dirPath: string): Promise<string[]> {
+    try {
+      const normalizedPrefix = this.getDirPrefix(dirPath);
+      const files: string[] = [];
+
+      for await (const page of this.listPages(normalizedPrefix, "/")) {
+        // Add files (objects)
+        for (const object of page.Contents || []) {
+          if (object.Key && object.Key !== normalizedPrefix) {
+            const fileName = object.Key.replace(normalizedPrefix, "");
+            if (fileName && !fileName.includes("/")) {
+              files.push(fileName);
+            }
+          }
+        }
+
+        // Add directories (common prefixes)
+        for (const commonPrefix of page.CommonPrefixes || []) {
+          if (commonPrefix.Prefix) {
+            const dirName = commonPrefix.Prefix.replace(
+              normalizedPrefix,
+              "",
+            ).replace("/", "");
+            if (dirName) {
+              files.push(`${dirName}/`);
+            }
+          }
+        }
+      }
+
+      return files;
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        return [];
+      }
+      throw new Error(`Failed to read directory ${dirPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Lazily list objects under a key prefix, following every page
+   *
+   * The prefix is relative to the filesystem root and used as-is, so
+   * "logs/2024-" matches "logs/2024-01.txt". Non-recursive listings stop
+   * at "/" and yield common prefixes as directory entries.
+   * @param prefix Key prefix relative to the filesystem root
+   * @param options Recursion and page size
+   */
+  async *listObjects(
+    prefix = "",
+    options: ListObjectsOptions = {},
+  ): AsyncGenerator<S3ObjectEntry> {
+    const keyPrefix = this.getS3Key(prefix);
+    const delimiter = options.recursive ? undefined : "/";
+
+    try {
+      for await (const page of this.listPages(
+        keyPrefix,
+        delimiter,
+        options.pageSize,
+      )) {
+        for (const object of page.Contents || []) {
+          if (object.Key) {
+            yield {
+              key: object.Key,
+              path: this.getRelativePath(object.Key),
+              size: object.Size || 0,
+              etag: object.ETag || "",
+              lastModified: object.LastModified,
+              isDirectory: object.Key.endsWith("/"),
+            };
+          }
+        }
+
+        for (const commonPrefix of page.CommonPrefixes || []) {
+          if (commonPrefix.Prefix) {
+            yield {
+              key: commonPrefix.Prefix,
+              path: this.getRelativePath(commonPrefix.Prefix),
+              size: 0,
+              etag: "",
+              isDirectory: true,
+            };
+          }
+        }
+      }
+    } catch (error: unknown) {
+      throw new Error(`Failed to list objects under ${prefix}: ${error}`);
+    }
+  }
+
+  /**
+   * Recursively walk a directory with a single delimiter-less listing
+   *
+   * Directories are derived from object keys and yielded once, before
+   * the first entry inside them.
+   * @param dirPath Directory path
+   */
+  async *walk(dirPath = ""): AsyncGenerator<WalkEntry> {
+    const prefix = this.getDirPrefix(dirPath);
+    const seen = new Set<string>();
+
+    try {
+      for await (const page of this.listPages(prefix)) {
+        for (const object of page.Contents || []) {
+          if (!object.Key) {
+            continue;
+          }
+          const lastModified = object.LastModified || new Date();
+
+          // Yield every implied parent directory we haven't seen yet
+          const segments = object.Key.slice(prefix.length).split("/");
+          let dirKey = prefix;
+          for (const segment of segments.slice(0, -1)) {
+            dirKey += `${segment}/`;
+            if (!seen.has(dirKey)) {
+              seen.add(dirKey);
+              yield {
+                path: this.getRelativePath(dirKey),
+                stats: this.createFileStats(0, lastModified, true),
+              };
+            }
+          }
+
+          if (!object.Key.endsWith("/")) {
+            yield {
+              path: this.getRelativePath(object.Key),
+              stats: this.createFileStats(
+                object.Size || 0,
+                lastModified,
+                false,
+              ),
+            };
+          }
+        }
+      }
+    } catch (error: unknown) {
+      throw new Error(`Failed to walk directory ${dirPath}: ${error}`);
+    }
+  }
+
+  /**
+   * Find files matching a glob pattern
+   *
+   * Supports `**`, `*`, `?` and `{a,b}`. Only keys under the literal
+   * part of the pattern are listed, e.g. "logs/2024-*.txt" lists
+   * "logs/2024-" with a single delimiter-less listing.
+   * @param pattern Glob pattern relative to the filesystem root
+   */
+  async glob(pattern: string): Promise<string[]> {
+    const normalized = pattern.replace(/^\.?\/+/, "");
+
+    if (!isGlob(normalized)) {
+      return (await this.exists(normalized)) ? [normalized] : [];
+    }
+
+    const matcher = globToRegExp(normalized);
+    const matches: string[] = [];
+
+    try {
+      for await (const page of this.listPages(
+        this.getS3Key(globPrefix(normalized)),
+      )) {
+        for (const object of page.Contents || []) {
+          if (object.Key && !object.Key.endsWith("/")) {
+            const path = this.getRelativePath(object.Key);
+            if (matcher.test(path)) {
+              matches.push(path);
+            }
+          }
+        }
+      }
+    } catch (error: unknown) {
+      throw new Error(`Failed to glob ${pattern}: ${error}`);
+    }
+
+    return matches;
+  }
+
+  /**
+   * Map a file extension to a content type for subsequent writes
+   * @param extension File extension, with or without the leading dot
+   * @param contentType Content type to send for it
+   */
+  registerContentType(extension: string, contentType: string): void {
+    this.contentTypes[normalizeExtension(extension)] = contentType;
+  }
+
+  /**
+   * Get the user metadata (x-amz-meta-* headers) of a file
+   * @param path File path in the bucket
+   */
+  async getMetadata(path: string): Promise<Record<string, string>> {
+    try {
+      const response = await this.s3.send(
+        new HeadObjectCommand({
+          Bucket: this.options.bucket,
+          Key: this.getS3Key(path),
+          ...this.customerKeyParams(),
+        }),
+      );
+      return response.Metadata || {};
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw new Error(`Failed to get metadata of ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Replace the user metadata of a file
+   *
+   * S3 metadata is immutable, so the object is copied onto itself with
+   * `MetadataDirective: REPLACE`; content headers are carried over.
+   * @param path File path in the bucket
+   * @param metadata New metadata (replaces all existing keys)
+   */
+  async setMetadata(
+    path: string,
+    metadata: Record<string, string>,
+  ): Promise<void> {
+    try {
+      const key = this.getS3Key(path);
+      await this.copyKey(key, key, undefined, this, { Metadata: metadata });
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw new Error(`Failed to set metadata of ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Get the tags of a file
+   * @param path File path in the bucket
+   */
+  async getTags(path: string): Promise<Record<string, string>> {
+    try {
+      const response = await this.s3.send(
+        new GetObjectTaggingCommand({
+          Bucket: this.options.bucket,
+          Key: this.getS3Key(path),
+        }),
+      );
+
+      const tags: Record<string, string> = {};
+      for (const tag of response.TagSet || []) {
+        if (tag.Key !== undefined) {
+          tags[tag.Key] = tag.Value ?? "";
+        }
+      }
+      return tags;
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw new Error(`Failed to get tags of ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Replace the tags of a file (S3 allows up to 10 per object)
+   * @param path File path in the bucket
+   * @param tags New tags (replaces all existing tags)
+   */
+  async setTags(path: string, tags: Record<string, string>): Promise<void> {
+    try {
+      await this.s3.send(
+        new PutObjectTaggingCommand({
+          Bucket: this.options.bucket,
+          Key: this.getS3Key(path),
+          Tagging: {
+            TagSet: Object.entries(tags).map(([Key, Value]) => ({
+              Key,
+              Value,
+            })),
+          },
+        }),
+      );
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw new Error(`Failed to set tags of ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Move a file to another storage class by copying it onto itself
+   *
+   * Content headers and metadata are kept; the object gets a new ETag
+   * (and a new version on versioned buckets). Archived objects have to be
+   * restored first.
+   * @param path File path in the bucket
+   * @param storageClass Target storage class, e.g. "GLACIER"
+   */
+  async transition(path: string, storageClass: StorageClass): Promise<void> {
+    try {
+      const key = this.getS3Key(path);
+      await this.copyKey(key, key, undefined, this, {
+        StorageClass: storageClass,
+      });
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      if (this.isArchivedError(error)) {
+        throw new ObjectArchived(path, error.StorageClass ?? "GLACIER");
+      }
+      throw new Error(
+        `Failed to transition ${path} to ${storageClass}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Request a temporary readable copy of an archived file
+   *
+   * Restores run in the background (minutes to hours depending on the
+   * tier); poll getRestoreStatus until the file is readable. Requesting a
+   * restore that is already running is not an error.
+   * @param path File path in the bucket
+   * @param options Restore duration and retrieval tier
+   */
+  async restore(path: string, options: RestoreOptions = {}): Promise<void> {
+    try {
+      await this.s3.send(
+        new RestoreObjectCommand({
+          Bucket: this.options.bucket,
+          Key: this.getS3Key(path),
+          RestoreRequest: {
+            Days: options.days ?? 1,
+            GlacierJobParameters: { Tier: options.tier ?? "Standard" },
+          },
+        }),
+      );
+    } catch (error: unknown) {
+      if (error instanceof Error && error.name === "RestoreAlreadyInProgress") {
+        return;
+      }
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw new Error(`Failed to restore ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Check whether a file is archived and how far along its restore is
+   * @param path File path in the bucket
+   */
+  async getRestoreStatus(path: string): Promise<RestoreStatus> {
+    try {
+      const response = await this.s3.send(
+        new HeadObjectCommand({
+          Bucket: this.options.bucket,
+          Key: this.getS3Key(path),
+          ...this.customerKeyParams(),
+        }),
+      );
+
+      // e.g. ongoing-request="false", expiry-date="Fri, 21 Dec 2012 00:00:00 GMT"
+      const restore = response.Restore ?? "";
+      const expiry = /expiry-date="([^"]+)"/.exec(restore)?.[1];
+      const ongoing = restore.includes('ongoing-request="true"');
+      const storageClass = response.StorageClass ?? "STANDARD";
+      const archived =
+        ARCHIVE_STORAGE_CLASSES.has(storageClass) || !!response.ArchiveStatus;
+
+      return {
+        storageClass,
+        archived,
+        ongoing,
+        restoredUntil: expiry ? new Date(expiry) : undefined,
+        readable: !archived || (!ongoing && !!expiry),
+      };
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw new Error(`Failed to get restore status of ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * List every version and delete marker of a file, newest first
+   *
+   * Objects written before versioning was enabled have the version ID "null".
+   * @param path File path in the bucket
+   */
+  async listVersions(path: string): Promise<ObjectVersion[]> {
+    const key = this.getS3Key(path);
+    const versions: ObjectVersion[] = [];
+    let keyMarker: string | undefined;
+    let versionIdMarker: string | undefined;
+
+    try {
+      do {
+        const response = await this.s3.send(
+          new ListObjectVersionsCommand({
+            Bucket: this.options.bucket,
+            Prefix: key,
+            KeyMarker: keyMarker,
+            VersionIdMarker: versionIdMarker,
+          }),
+        );
+
+        // The prefix also matches longer keys such as "report.csv.bak"
+        for (const version of response.Versions || []) {
+          if (version.Key === key) {
+            versions.push({
+              versionId: version.VersionId || "null",
+              isLatest: !!version.IsLatest,
+              isDeleteMarker: false,
+              lastModified: version.LastModified,
+              size: version.Size || 0,
+              etag: version.ETag || "",
+              storageClass: version.StorageClass,
+            });
+          }
+        }
+        for (const marker of response.DeleteMarkers || []) {
+          if (marker.Key === key) {
+            versions.push({
+              versionId: marker.VersionId || "null",
+              isLatest: !!marker.IsLatest,
+              isDeleteMarker: true,
+              lastModified: marker.LastModified,
+              size: 0,
+              etag: "",
+            });
+          }
+        }
+
+        // Keys are listed in order, so once past ours there is nothing left
+        keyMarker = response.IsTruncated ? response.NextKeyMarker : undefined;
+        versionIdMarker = response.NextVersionIdMarker;
+      } while (keyMarker !== undefined && keyMarker <= key);
+    } catch (error: unknown) {
+      throw new Error(`Failed to list versions of ${path}: ${error}`);
+    }
+
+    return versions.sort(
+      (a, b) =>
+        (b.lastModified?.getTime() ?? 0) - (a.lastModified?.getTime() ?? 0),
+    );
+  }
+
+  /**
+   * Make an old version current again by copying it over the latest
+   *
+   * The old version's content, headers and metadata are copied into a new
+   * version; the versions in between are kept.
+   * @param path File path in the bucket
+   * @param versionId Version to restore
+   */
+  async restoreVersion(path: string, versionId: string): Promise<void> {
+    try {
+      const key = this.getS3Key(path);
+      await this.copyKey(key, key, undefined, this, undefined, versionId);
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      if (this.isArchivedError(error)) {
+        throw new ObjectArchived(path, error.StorageClass ?? "GLACIER");
+      }
+      throw new Error(
+        `Failed to restore version ${versionId} of ${path}: ${error}`,
+      );
+    }
+  }
+
+  /**
+   * Permanently delete one version (or delete marker) of a file
+   *
+   * Unlike deleteFile, which only adds a delete marker on versioned
+   * buckets, this can't be undone. Deleting a delete marker undeletes
+   * the file.
+   * @param path File path in the bucket
+   * @param versionId Version to delete
+   */
+  async deleteVersion(path: string, versionId: string): Promise<void> {
+    const key = this.getS3Key(path);
+
+    try {
+      await this.s3.send(
+        new DeleteObjectCommand({
+          Bucket: this.options.bucket,
+          Key: key,
+          VersionId: versionId,
+        }),
+      );
+    } catch (error: unknown) {
+      throw new Error(
+        `Failed to delete version ${versionId} of ${path}: ${error}`,
+      );
+    }
+
+    // The latest version may have changed
+    await this.cache.delete(this.cacheKey(key));
+  }
+
+  /**
+   * Get the access control list of a file
+   * @param path File path in the bucket
+   */
+  async getAcl(path: string): Promise<S3Acl> {
+    const key = this.getS3Key(path);
+
+    try {
+      const response = await this.s3.send(
+        new GetObjectAclCommand({ Bucket: this.options.bucket, Key: key }),
+      );
+
+      const acl = parseAcl(response.Owner, response.Grants);
+      if (acl.canned) {
+        await this.recordAcl(key, acl.canned);
+      }
+      return acl;
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw new Error(`Failed to get ACL of ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Apply a canned ACL to a file
+   *
+   * Buckets with Object Ownership set to "bucket owner enforced" (the
+   * default for new buckets) reject every ACL except private.
+   * @param path File path in the bucket
+   * @param acl Canned ACL, e.g. "public-read"
+   */
+  async setAcl(path: string, acl: ObjectCannedACL): Promise<void> {
+    const key = this.getS3Key(path);
+
+    try {
+      await this.s3.send(
+        new PutObjectAclCommand({
+          Bucket: this.options.bucket,
+          Key: key,
+          ACL: acl,
+        }),
+      );
+      await this.recordAcl(key, acl);
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw new Error(`Failed to set ACL of ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Set object permissions by applying the canned ACL mapped from the mode
+   * @param path File path
+   * @param mode Permission mode, e.g. 0o644 for public-read
+   */
+  async chmod(path: string, mode: number): Promise<void> {
+    await this.setAcl(path, this.options.aclMapping.toAcl(mode));
+  }
+
+  /**
+   * Get file statistics
+   * @param path File path
+   * @param options Version to describe instead of the latest
+   */
+  async stat(path: string, options: VersionOptions = {}): Promise<S3FileStats> {
+    if (options.versionId) {
+      return this.statVersion(path, options.versionId);
+    }
+
+    let directory: S3FileStats | null;
+
+    try {
+      const key = this.getS3Key(path);
+
+      // Check cache first
+      // Entries cached by copies, streams and multipart uploads have no
+      // details yet, so those are fetched once with a HEAD
+      const cached = await this.cache.get(this.cacheKey(key));
+      if (cached?.details && !this.needsRevalidation(cached)) {
+        return this.createFileStats(
+          cached.size,
+          cached.lastModified,
+          false,
+          cached,
+        );
+      }
+
+      // Keys ending in "/" (and the root) can only be directories
+      if (key !== "" && !key.endsWith("/")) {
+        const metadata = await this.headObject(key, cached);
+        if (metadata) {
+          return this.createFileStats(
+            metadata.size,
+            metadata.lastModified,
+            false,
+            metadata,
+          );
+        }
+      }
+
+      // Not an object - it may still be a virtual directory
+      directory = await this.statDirectory(path);
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error)) {
+        throw new Error(`File not found: ${path}`);
+      }
+      throw new Error(`Failed to get file stats for ${path}: ${error}`);
+    }
+
+    if (!directory) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return directory;
+  }
+
+  /**
+   * Get statistics for many paths from listings instead of a HEAD each
+   *
+   * Paths are grouped by parent directory and each group is listed once,
+   * under the longest prefix its keys share. Listings report size,
+   * timestamps, ETag, storage class and checksum algorithm, but not
+   * content type, metadata or encryption.
+   * @param paths File or directory paths
+   * @returns Stats by path, leaving out paths that don't exist
+   */
+  async statMany(paths: string[]): Promise<Map<string, S3FileStats>> {
+    const results = new Map<string, S3FileStats>();
+    const root = this.getDirPrefix("");
+    // Parent prefix → key → the paths that resolve to it
+    const groups = new Map<string, Map<string, string[]>>();
+
+    for (const path of paths) {
+      const key = this.getS3Key(path).replace(/\/+$/, "");
+      if (key === "" || `${key}/` === root) {
+        results.set(path, this.createFileStats(0, new Date(), true));
+        continue;
+      }
+
+      const parent = key.slice(0, key.lastIndexOf("/") + 1);
+      const group = groups.get(parent) ?? new Map<string, string[]>();
+      group.set(key, [...(group.get(key) ?? []), path]);
+      groups.set(parent, group);
+    }
+
+    try {
+      for (const wanted of groups.values()) {
+        const found = new Set<string>();
+
+        for await (const page of this.listPages(
+          this.sharedPrefix([...wanted.keys()]),
+          "/",
+        )) {
+          for (const object of page.Contents || []) {
+            const matches = object.Key ? wanted.get(object.Key) : undefined;
+            if (!object.Key || !matches) {
+              continue;
+            }
+            found.add(object.Key);
+
+            const algorithm = object.ChecksumAlgorithm?.[0];
+            const stats = this.createFileStats(
+              object.Size || 0,
+              object.LastModified || new Date(),
+              false,
+              {
+                etag: object.ETag || "",
+                details: {
+                  storageClass: object.StorageClass ?? "STANDARD",
+                  checksum: algorithm
+                    ? { algorithm, type: object.ChecksumType }
+                    : undefined,
+                },
+              },
+            );
+            for (const path of matches) {
+              results.set(path, stats);
+            }
+          }
+
+          for (const commonPrefix of page.CommonPrefixes || []) {
+            const key = commonPrefix.Prefix?.slice(0, -1);
+            const matches = key ? wanted.get(key) : undefined;
+            // Like stat, an object wins over a directory of the same name
+            if (!key || !matches || found.has(key)) {
+              continue;
+            }
+            found.add(key);
+
+            const stats = this.createFileStats(0, new Date(), true);
+            for (const path of matches) {
+              results.set(path, stats);
+            }
+          }
+
+          if (found.size === wanted.size) {
+            break;
+          }
+        }
+      }
+    } catch (error: unknown) {
+      throw new Error(
+        `Failed to get file stats for ${paths.length} paths: ${error}`,
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Clear the cache
+   *
+   * Takes effect immediately with the built-in memory cache. Other cache
+   * stores are cleared in the background; use clearCacheStore to wait for
+   * them and see their errors.
+   */
+  clearCache(): void {
+    this.clearCacheStore().catch(() => undefined);
+  }
+
+  /**
+   * Clear the cache and wait until the cache store is empty
+   */
+  async clearCacheStore(): Promise<void> {
+    await this.cache.clear();
+  }
+
+  /**
+   * Get cache hit, miss and eviction counts and current usage
+   */
+  getCacheStats(): S3CacheStats {
+    return this.cache.stats();
+  }
+
+  /**
+   * Get S3 bucket information
+   */
+  getBucketInfo(): { bucket: string; region: string; prefix: string } {
+    return {
+      bucket: this.options.bucket,
+      region: this.options.region,
+      prefix: this.options.prefix,
+    };
+  }
+
+  /**
+   * Create a multipart upload using the filesystem defaults
+   * @param path File path in the bucket
+   * @param key Full S3 key
+   * @param options Per-upload overrides
+   */
+  private createMultipartUpload(
+    path: string,
+    key: string,
+    options: MultipartUploadOptions = {},
+  ): MultipartUpload {
+    return new MultipartUpload(
+      this.s3,
+      this.options.bucket,
+      key,
+      this.getUploadOptions(path, options),
+    );
+  }
+
+  /**
+   * Merge per-upload overrides into the filesystem's upload defaults
+   * @param path File path in the bucket
+   * @param options Per-upload overrides
+   */
+  private getUploadOptions(
+    path: string,
+    options: MultipartUploadOptions,
+  ): MultipartUploadOptions {
+    const { ContentType, ...headers } = this.getObjectHeaders(path);
+
+    return {
+      partSize: this.options.partSize,
+      concurrency: this.options.uploadConcurrency,
+      contentType: ContentType,
+      ...options,
+      objectParams: {
+        ...headers,
+        ...this.encryptionParams(),
+        ...options.objectParams,
+      },
+    };
+  }
+
+  /**
+   * Run a multipart upload and record the new object in the cache
+   * @param path File path in the bucket
+   * @param source Data to upload
+   * @param options Per-upload overrides
+   */
+  private async runMultipartUpload(
+    path: string,
+    source: PartSource,
+    options: MultipartUploadOptions,
+  ): Promise<MultipartUploadResult> {
+    try {
+      const key = this.getS3Key(path);
+      const { contentType, objectParams } = this.getUploadOptions(
+        path,
+        options,
+      );
+      const result = await this.createMultipartUpload(
+        path,
+        key,
+        options,
+      ).upload(source);
+
+      await this.cache.set(this.cacheKey(key), {
+        size: result.size,
+        lastModified: new Date(),
+        etag: result.etag,
+        details: this.writtenDetails({
+          ContentType: contentType,
+          ...objectParams,
+        }),
+      });
+
+      return result;
+    } catch (error: unknown) {
+      throw new Error(`Failed to upload file ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Get statistics for a specific version of a file
+   * @param path File path in the bucket
+   * @param versionId Version to describe
+   */
+  private async statVersion(
+    path: string,
+    versionId: string,
+  ): Promise<S3FileStats> {
+    let response: HeadObjectCommandOutput | null;
+    try {
+      response = await this.headVersion(this.getS3Key(path), versionId);
+    } catch (error: unknown) {
+      throw new Error(`Failed to get file stats for ${path}: ${error}`);
+    }
+
+    if (!response) {
+      throw new Error(`File not found: ${path}`);
+    }
+    return this.createFileStats(
+      response.ContentLength || 0,
+      response.LastModified || new Date(),
+      false,
+      { etag: response.ETag || "", details: this.objectDetails(response) },
+    );
+  }
+
+  /**
+   * Fetch the metadata of a specific version, bypassing the cache
+   * @param key Full S3 key
+   * @param versionId Version to fetch
+   * @returns Metadata, or null for missing versions and delete markers
+   */
+  private async headVersion(
+    key: string,
+    versionId: string,
+  ): Promise<HeadObjectCommandOutput | null> {
+    try {
+      return await this.s3.send(
+        new HeadObjectCommand({
+          Bucket: this.options.bucket,
+          Key: key,
+          VersionId: versionId,
+          ChecksumMode: "ENABLED",
+          ...this.customerKeyParams(),
+        }),
+      );
+    } catch (error: unknown) {
+      if (this.isNotFoundError(error) || this.isDeleteMarkerError(error)) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch object metadata, revalidating a cached entry with If-None-Match
+   * @param key Full S3 key
+   * @param cached Cached entry to revalidate, if any
+   * @returns Current metadata, or null when the object doesn't exist
+   */
+  private async headObject(
+    key: string,
+    cached?: S3FileCache,
+  ): Promise<S3FileCache | null> {
+    try {
+      const response = await this.s3.send(
+        new HeadObjectCommand({
+          Bucket: this.options.bucket,
+          Key: key,
+          // A 304 carries no headers, so entries without details are refetched
+          IfNoneMatch: (cached?.details && cached.etag) || undefined,
+          ChecksumMode: "ENABLED",
+          ...this.customerKeyParams(),
+        }),
+      );
+
+      const unchanged = cached?.etag === response.ETag;
+      const metadata = {
+        // Same ETag, same bytes - cached content stays valid
+        content: unchanged ? cached?.content : undefined,
+        size: response.ContentLength || 0,
+        lastModified: response.LastModified || new Date(),
+        etag: response.ETag || "",
+        details: {
+          ...this.objectDetails(response),
+          // ACL changes keep the ETag, so a known ACL still applies
+          acl: unchanged ? cached?.details?.acl : undefined,
+        },
+      };
+      await this.cacheFetched(key, metadata);
+      return metadata;
+    } catch (error: unknown) {
+      if (cached && this.isNotModifiedError(error)) {
+        const revalidated = { ...cached, cachedAt: Date.now() };
+        await this.cacheFetched(key, revalidated);
+        return revalidated;
+      }
+      if (this.isNotFoundError(error)) {
+        await this.cache.delete(this.cacheKey(key));
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Parse a JSON document and run the validation hook over it
+   * @param path File path, for error messages
+   * @param content Raw document
+   * @param validate Validation hook
+   */
+  private parseJSON<T>(
+    path: string,
+    content: Buffer,
+    validate?: JSONValidator<T>,
+  ): T {
+    let value: unknown;
+    try {
+      value = JSON.parse(content.toString("utf8"));
+    } catch (error: unknown) {
+      throw new Error(`Failed to parse JSON in ${path}: ${error}`);
+    }
+    return validate ? this.validateJSON(path, value, validate) : (value as T);
+  }
+
+  /**
+   * Run a validation hook, reporting failures against the document path
+   * @param path File path, for error messages
+   * @param value Document to validate
+   * @param validate Validation hook
+   */
+  private validateJSON<T>(
+    path: string,
+    value: unknown,
+    validate: JSONValidator<T>,
+  ): T {
+    try {
+      return validate(value);
+    } catch (error: unknown) {
+      throw new Error(`Invalid JSON document ${path}: ${error}`);
+    }
+  }
+
+  /**
+   * Check if a cached entry must be confirmed with S3 before use
+   * @param entry Cached entry
+   */
+  private needsRevalidation(entry: S3FileCache): boolean {
+    switch (this.options.coherence) {
+      case "always-revalidate":
+        return true;
+      case "ttl":
+        return (
+          Date.now() - (entry.cachedAt ?? 0) >= this.options.revalidateAfter
+        );
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Record fresh metadata, dropping cached content that no longer matches
+   * @param key Full S3 key
+   * @param metadata Metadata reported by S3
+   */
+  private async syncCachedMetadata(
+    key: string,
+    metadata: S3FileCache,
+  ): Promise<void> {
+    const cached = await this.cache.peek(this.cacheKey(key));
+    const stale =
+      !cached ||
+      cached.size !== metadata.size ||
+      (!!cached.etag && !!metadata.etag && cached.etag !== metadata.etag);
+
+    if (stale) {
+      await this.cacheFetched(key, metadata);
+    }
+  }
+
+  /**
+   * Cache an entry fetched from S3
+   *
+   * The read that fetched it already succeeded, so a cache store that
+   * can't be written to (full disk, concurrent writers) is ignored.
+   * @param key Full S3 key
+   * @param entry Entry to cache
+   */
+  private async cacheFetched(key: string, entry: S3FileCache): Promise<void> {
+    await this.cache.set(this.cacheKey(key), entry).catch(() => undefined);
+  }
+
+  /**
+   * Build an HTTP Range header value
+   * @param start Offset of the first byte (negative for a suffix range)
+   * @param end Offset of the last byte (inclusive)
+   */
+  private formatRange(start: number, end?: number): string {
+    if (start < 0) {
+      return `bytes=${start}`;
+    }
+    return end === undefined ? `bytes=${start}-` : `bytes=${start}-${end}`;
+  }
+
+  /**
+   * Parse a Content-Range header such as "bytes 0-99/1234"
+   * @param contentRange Content-Range header value
+   */
+  private parseContentRange(
+    contentRange?: string,
+  ): { start: number; end: number; size?: number } | undefined {
+    const match = contentRange?.match(/^bytes (\d+)-(\d+)\/(\d+|\*)$/);
+    if (!match) {
+      return undefined;
+    }
+    return {
+      start: Number(match[1]),
+      end: Number(match[2]),
+      size: match[3] === "*" ? undefined : Number(match[3]),
+    };
+  }
+
+  /**
+   * Slice a range out of fully cached content
+   * @param content Cached object content
+   * @param start Offset of the first byte (negative for a suffix range)
+   * @param end Offset of the last byte (inclusive)
+   */
+  private sliceRange(
+    content: Buffer,
+    start: number,
+    end?: number,
+  ): RangeReadResult {
+    const size = content.length;
+    const first = Math.min(start < 0 ? Math.max(size + start, 0) : start, size);
+    const last = Math.min(end ?? size - 1, size - 1);
+    // A copy, like readObject's results, so callers can't corrupt the cache
+    const data = Buffer.from(
+      content.subarray(first, Math.max(last + 1, first)),
+    );
+    return { data, start: first, end: first + data.length - 1, size };
+  }
+
+  /**
+   * Delete keys, or move them into the trash in trash mode
+   * @param batches Batches of full S3 keys (at most 1000 each)
+   * @param prefix Directory prefix being deleted, if any - the trash is
+   *   spared when it lies inside it
+   */
+  private async discardKeys(
+    batches: AsyncIterable<string[]>,
+    prefix?: string,
+  ): Promise<DeleteResult> {
+    if (!this.options.trash) {
+      return this.deleteKeys(batches);
+    }
+
+    const trashRoot = this.getTrashRoot();
+    const spareTrash = prefix !== undefined && !prefix.startsWith(trashRoot);
+    const deletedAt = Date.now();
+    const result: DeleteResult = { deleted: [], failed: [] };
+
+    for await (const keys of batches) {
+      const discard: string[] = [];
+
+      await mapWithConcurrency(keys, TRASH_COPY_CONCURRENCY, async (key) => {
+        if (key.startsWith(trashRoot)) {
+          // Deleting from the trash itself is permanent
+          if (!spareTrash) {
+            discard.push(key);
+          }
+          return;
+        }
+        if (this.bypassesTrash(key)) {
+          discard.push(key);
+          return;
+        }
+
+        try {
+          await this.copyToTrash(key, deletedAt);
+          discard.push(key);
+        } catch (error: unknown) {
+          if (this.isNotFoundError(error)) {
+            discard.push(key);
+          } else {
+            result.failed.push({
+              key,
+              code: this.errorCode(error),
+              message: String(error),
+            });
+          }
+        }
+      });
+
+      if (discard.length > 0) {
+        await this.deleteBatch(discard, result);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Copy an object into the trash, recording its original path in metadata
+   * @param key Full S3 key
+   * @param deletedAt Deletion time (epoch milliseconds) naming the trash folder
+   * @returns Full S3 key of the trashed copy
+   */
+  private async copyToTrash(key: string, deletedAt: number): Promise<string> {
+    const originalPath = this.getRelativePath(key);
+    const trashKey = `${this.getTrashRoot()}${deletedAt}/${originalPath}`;
+
+    await this.copyKey(key, trashKey, undefined, this, (source) => ({
+      Metadata: { ...source.Metadata, [TRASH_PATH_METADATA]: originalPath },
+    }));
+    return trashKey;
+  }
+
+  /**
+   * Split a trash key into its original path and deletion time
+   * @param key Full S3 key
+   * @returns Null for keys outside the trash layout
+   */
+  private parseTrashKey(
+    key: string,
+  ): { originalPath: string; deletedAt: Date } | null {
+    const trashRoot = this.getTrashRoot();
+    const match = key.startsWith(trashRoot)
+      ? /^(\d+)\/(.+)$/.exec(key.slice(trashRoot.length))
+      : null;
+
+    return match
+      ? { originalPath: match[2], deletedAt: new Date(Number(match[1])) }
+      : null;
+  }
+
+  /**
+   * Get the full S3 key prefix of the trash
+   */
+  private getTrashRoot(): string {
+    return this.getDirPrefix(this.options.trashPrefix);
+  }
+
+  /**
+   * Get the full S3 key prefix of the lock objects
+   */
+  private getLockRoot(): string {
+    return this.getDirPrefix(this.options.lockPrefix);
+  }
+
+  /**
+   * Check if deleting a key bypasses the trash - trashed files and
+   * short-lived lock objects are deleted for good
+   * @param key Full S3 key
+   */
+  private bypassesTrash(key: string): boolean {
+    return (
+      key.startsWith(this.getTrashRoot()) || key.startsWith(this.getLockRoot())
+    );
+  }
+
+  /**
+   * Split keys into DeleteObjects-sized batches of up to 1000
+   * @param keys Full S3 keys
+   */
+  private async *keyBatches(keys: string[]): AsyncGenerator<string[]> {
+    for (let i = 0; i < keys.length; i += 1000) {
+      yield keys.slice(i, i + 1000);
+    }
+  }
+
+  /**
+   * Delete keys in batches of up to 1000 with bounded concurrency
+   *
+   * A batch that fails as a whole marks all of its keys as failed; the
+   * remaining batches still run.
+   * @param batches Batches of full S3 keys (at most 1000 each)
+   */
+  private async deleteKeys(
+    batches: AsyncIterable<string[]>,
+  ): Promise<DeleteResult> {
+    const result: DeleteResult = { deleted: [], failed: [] };
+    const inFlight = new Set<Promise<void>>();
+
+    for await (const keys of batches) {
+      if (keys.length === 0) {
+        continue;
+      }
+
+      const task: Promise<void> = this.deleteBatch(keys, result).finally(() =>
+        inFlight.delete(task),
+      );
+      inFlight.add(task);
+
+      if (inFlight.size >= this.options.deleteConcurrency) {
+        await Promise.race(inFlight);
+      }
+    }
+
+    await Promise.all(inFlight);
+    return result;
+  }
+
+  /**
+   * Send a single DeleteObjects request and record its outcome
+   * @param keys Full S3 keys (at most 1000)
+   * @param result Result to record deleted and failed keys in
+   */
+  private async deleteBatch(
+    keys: string[],
+    result: DeleteResult,
+  ): Promise<void> {
+    try {
+      const response = await this.s3.send(
+        new DeleteObjectsCommand({
+          Bucket: this.options.bucket,
+          Delete: {
+            Objects: keys.map((key) => ({ Key: key })),
+            Quiet: true,
+          },
+        }),
+      );
+
+      // Quiet mode only reports errors - everything else was deleted
+      const failed = new Set<string>();
+      for (const error of response?.Errors || []) {
+        if (error.Key) {
+          failed.add(error.Key);
+          result.failed.push({
+            key: error.Key,
+            code: error.Code || "Unknown",
+            message: error.Message || "",
+          });
+        }
+      }
+
+      for (const key of keys) {
+        await this.cache.delete(this.cacheKey(key));
+        if (!failed.has(key)) {
+          result.deleted.push(key);
+        }
+      }
+    } catch (error: unknown) {
+      const code = this.errorCode(error);
+      for (const key of keys) {
+        result.failed.push({ key, code, message: String(error) });
+      }
+    }
+  }
+
+  /**
+   * Get the error name to report for a failed key
+   * @param error Error object
+   */
+  private errorCode(error: unknown): string {
+    return error && typeof error === "object" && "name" in error
+      ? String((error as { name: unknown }).name)
+      : "Unknown";
+  }
 
-          // Remove from cache
-          this.cache.delete(object.Key);
-        }
-      }
-    } catch (error: unknown) {
-      throw new Error(`Failed to delete directory ${path}: ${error}`);
+  /**
+   * List the keys under a prefix, one page (up to 1000 keys) per batch
+   * @param prefix Full S3 key prefix
+   * @param exclude Keys to leave out
+   */
+  private async *listKeys(
+    prefix: string,
+    exclude: string[] = [],
+  ): AsyncGenerator<string[]> {
+    for await (const page of this.listPages(prefix)) {
+      yield (page.Contents || [])
+        .map((object) => object.Key)
+        .filter((key): key is string => !!key && !exclude.includes(key));
     }
   }
 
   /**
-   * Ensure a directory exists (no-op for S3)
+   * Get directory stats if any object (or marker) lives under the path
    * @param dirPath Directory path
    */
-  async ensureDir(dirPath: string): Promise<void> {
-    // S3 doesn't have directories - they're implicit through object keys
-    // This is a no-op for compatibility
+  private async statDirectory(dirPath: string): Promise<S3FileStats | null> {
+    const prefix = this.getDirPrefix(dirPath);
+
+    // The filesystem root always exists
+    if (prefix === this.getDirPrefix("")) {
+      return this.createFileStats(0, new Date(), true);
+    }
+
+    const response = await this.s3.send(
+      new ListObjectsV2Command({
+        Bucket: this.options.bucket,
+        Prefix: prefix,
+        MaxKeys: 1,
+      }),
+    );
+
+    const first = response.Contents?.[0];
+    if (!first) {
+      return null;
+    }
+
+    // A marker object carries the directory's own timestamp
+    return this.createFileStats(
+      0,
+      (first.Key === prefix && first.LastModified) || new Date(),
+      true,
+    );
   }
 
   /**
-   * Read directory contents
-   * @param dirPath Directory path
+   * Copy one object server side, into this or another filesystem
+   *
+   * Uses CopyObject, or parallel UploadPartCopy requests for objects
+   * above 5 GiB. Metadata and content headers are preserved unless
+   * `changes` replaces some of them.
+   * @param sourceKey Full S3 key of the source in this bucket
+   * @param destKey Full S3 key of the destination in the target bucket
+   * @param size Source size if already known
+   * @param target Filesystem that receives the copy
+   * @param changes Headers to replace on the copy, or a function deriving
+   *   them from the source's headers
+   * @param sourceVersionId Version of the source to copy instead of the latest
    */
-  async readDir(dirPath: string): Promise<string[]> {
-    try {
-      const prefix = this.getS3Key(dirPath);
-      const normalizedPrefix =
-        prefix === "" ? "" : prefix.endsWith("/") ? prefix : `${prefix}/`;
+  private async copyKey(
+    sourceKey: string,
+    destKey: string,
+    size?: number,
+    target: S3FileSystem = this,
+    changes?: ObjectHeaders | ((source: ObjectHeaders) => ObjectHeaders),
+    sourceVersionId?: string,
+  ): Promise<void> {
+    const copySource = this.getCopySource(
+      sourceKey,
+      this.options.bucket,
+      sourceVersionId,
+    );
+    let objectSize = size;
+    let headers: ObjectHeaders | undefined;
+    let etag: string | undefined;
+    let details: S3ObjectDetails | undefined;
 
-      const response = await this.s3.send(
-        new ListObjectsV2Command({
+    if (
+      changes ||
+      objectSize === undefined ||
+      objectSize > MAX_COPY_OBJECT_SIZE
+    ) {
+      const head = await this.s3.send(
+        new HeadObjectCommand({
           Bucket: this.options.bucket,
-          Prefix: normalizedPrefix,
-          Delimiter: "/",
+          Key: sourceKey,
+          VersionId: sourceVersionId,
+          ...this.customerKeyParams(),
         }),
       );
+      objectSize = head.ContentLength || 0;
+      const source: ObjectHeaders = {
+        ContentType: head.ContentType,
+        CacheControl: head.CacheControl,
+        ContentDisposition: head.ContentDisposition,
+        ContentEncoding: head.ContentEncoding,
+        ContentLanguage: head.ContentLanguage,
+        Expires: head.Expires,
+        Metadata: head.Metadata,
+        StorageClass: head.StorageClass,
+      };
+      headers = {
+        ...source,
+        ...(typeof changes === "function" ? changes(source) : changes),
+      };
+    }
 
-      const files: string[] = [];
-
-      // Add files (objects)
-      if (response.Contents) {
-        for (const object of response.Contents) {
-          if (object.Key && object.Key !== normalizedPrefix) {
-            const fileName = object.Key.replace(normalizedPrefix, "");
-            if (fileName && !fileName.includes("/")) {
-              files.push(fileName);
-            }
-          }
-        }
+    if (headers && objectSize > MAX_COPY_OBJECT_SIZE) {
+      // Multipart copies don't inherit anything - carry it over explicitly
+      const upload = new MultipartUpload(
+        target.s3,
+        target.options.bucket,
+        destKey,
+        {
+          partSize: COPY_PART_SIZE,
+          concurrency: target.options.uploadConcurrency,
+          objectParams: { ...headers, ...target.encryptionParams() },
+          copySourceParams: this.copySourceKeyParams(),
+        },
+      );
+      ({ etag } = await upload.copy(copySource, objectSize));
+      details = this.writtenDetails({
+        ...headers,
+        ...target.encryptionParams(),
+      });
+    } else {
+      const response = await target.s3.send(
+        new CopyObjectCommand({
+          Bucket: target.options.bucket,
+          Key: destKey,
+          CopySource: copySource,
+          // Replacing any header means restating all of them
+          ...(changes
+            ? { MetadataDirective: "REPLACE", ...headers }
+            : { MetadataDirective: "COPY" }),
+          // Copies are encrypted with the target's settings, not the source's
+          ...this.copySourceKeyParams(),
+          ...target.encryptionParams(),
+        }),
+      );
+      etag = response.CopyObjectResult?.ETag;
+      if (headers) {
+        details = this.writtenDetails({
+          // Copies without explicit headers land in STANDARD
+          ...(changes ? headers : { ...headers, StorageClass: undefined }),
+          ...target.encryptionParams(),
+          ...response,
+          ...response.CopyObjectResult,
+        });
       }
+    }
 
-      // Add directories (common prefixes)
-      if (response.CommonPrefixes) {
-        for (const commonPrefix of response.CommonPrefixes) {
-          if (commonPrefix.Prefix) {
-            const dirName = commonPrefix.Prefix.replace(
-              normalizedPrefix,
-              "",
-            ).replace("/", "");
-            if (dirName) {
-              files.push(`${dirName}/`);
-            }
-          }
+    // The copy has the same bytes, so cached content carries over (the
+    // cache only holds latest versions)
+    await target.cache.set(target.cacheKey(destKey), {
+      content: sourceVersionId
+        ? undefined
+        : (await this.cache.peek(this.cacheKey(sourceKey)))?.content,
+      size: objectSize ?? 0,
+      lastModified: new Date(),
+      etag: etag || "",
+      details,
+    });
+  }
+
+  /**
+   * Check that every expected key is listed under a prefix with its size
+   * @param prefix Full S3 key prefix to list
+   * @param expected Keys and sizes that must be present
+   */
+  private async verifyKeys(
+    prefix: string,
+    expected: { key: string; size: number }[],
+  ): Promise<void> {
+    const listed = new Map<string, number>();
+    for await (const page of this.listPages(prefix)) {
+      for (const object of page.Contents || []) {
+        if (object.Key) {
+          listed.set(object.Key, object.Size || 0);
         }
       }
+    }
 
-      return files;
-    } catch (error: unknown) {
-      if (this.isNotFoundError(error)) {
-        return [];
-      }
-      throw new Error(`Failed to read directory ${dirPath}: ${error}`);
+    const missing = expected.filter(
+      ({ key, size }) => listed.get(key) !== size,
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Verification failed for ${missing.length} object(s): ${missing
+          .slice(0, 10)
+          .map(({ key }) => key)
+          .join(", ")}`,
+      );
     }
   }
 
   /**
-   * Set object permissions (S3 ACL - simplified implementation)
-   * @param path File path
-   * @param mode Permission mode (simplified to public/private)
+   * Check if another filesystem can copy from this bucket server side
+   *
+   * Instances resolving credentials from the environment or an IAM role
+   * may still belong to different accounts, so only identical explicit
+   * credentials count.
+   * @param other Filesystem to compare with
    */
-  async chmod(path: string, mode: number): Promise<void> {
-    // S3 doesn't have traditional file permissions
-    // This could be extended to set ACLs, but for simplicity we'll make it a no-op
-    // In a real implementation, you might use PutObjectAclCommand
+  private sharesAccountWith(other: S3FileSystem): boolean {
+    return (
+      other === this ||
+      (this.options.accessKeyId !== undefined &&
+        other.options.endpoint === this.options.endpoint &&
+        other.options.accessKeyId === this.options.accessKeyId &&
+        other.options.secretAccessKey === this.options.secretAccessKey)
+    );
   }
 
   /**
-   * Get file statistics
-   * @param path File path
+   * Fetch every ListObjectsV2 page for a prefix, one request at a time
+   * @param prefix Full S3 key prefix
+   * @param delimiter Optional delimiter for one-level listings
+   * @param pageSize Keys per request (max 1000)
    */
-  async stat(path: string): Promise<FileStats> {
-    try {
-      const key = this.getS3Key(path);
+  private async *listPages(
+    prefix: string,
+    delimiter?: string,
+    pageSize?: number,
+  ): AsyncGenerator<ListObjectsV2CommandOutput> {
+    let continuationToken: string | undefined;
 
-      // Check cache first
-      const cached = this.cache.get(key);
-      if (cached) {
-        return this.createFileStats(cached.size, cached.lastModified, false);
-      }
-
-      // Fetch metadata from S3
+    do {
       const response = await this.s3.send(
-        new HeadObjectCommand({
+        new ListObjectsV2Command({
           Bucket: this.options.bucket,
-          Key: key,
+          Prefix: prefix || undefined,
+          Delimiter: delimiter,
+          MaxKeys: pageSize,
+          ContinuationToken: continuationToken,
         }),
       );
 
-      const size = response.ContentLength || 0;
-      const lastModified = response.LastModified || new Date();
+      yield response;
 
-      // Cache metadata
-      this.cache.set(key, {
-        size,
-        lastModified,
-        etag: response.ETag || "",
-      });
+      continuationToken = response.IsTruncated
+        ? response.NextContinuationToken
+        : undefined;
+    } while (continuationToken);
+  }
 
-      return this.createFileStats(size, lastModified, false);
-    } catch (error: unknown) {
-      if (this.isNotFoundError(error)) {
-        throw new Error(`File not found: ${path}`);
-      }
-      throw new Error(`Failed to get file stats for ${path}: ${error}`);
-    }
+  /**
+   * Get the S3 key prefix of a directory (always ending with "/")
+   * @param dirPath Directory path
+   */
+  private getDirPrefix(dirPath: string): string {
+    const prefix = this.getS3Key(dirPath);
+    return prefix === "" || prefix.endsWith("/") ? prefix : `${prefix}/`;
   }
 
   /**
-   * Clear the cache
+   * Get the filesystem path of a full S3 key
+   * @param key Full S3 key
    */
-  clearCache(): void {
-    this.cache.clear();
+  private getRelativePath(key: string): string {
+    const root = this.getS3Key("");
+    return root && key.startsWith(root) ? key.slice(root.length) : key;
   }
 
   /**
-   * Get S3 bucket information
+   * Get the cache key for an S3 key, qualified by bucket so stores can be shared
+   * @param key Full S3 key
    */
-  getBucketInfo(): { bucket: string; region: string; prefix: string } {
-    return {
-      bucket: this.options.bucket,
-      region: this.options.region,
-      prefix: this.options.prefix,
-    };
+  private cacheKey(key: string): string {
+    return `${this.options.bucket}/${key}`;
   }
 
   /**
@@ -426,22 +3393,161 @@ export class S3FileSystem implements IAsyncFileSystem {
     return normalizedPath;
   }
 
+  /**
+   * Build the URL-encoded CopySource value for a key
+   * @param key Full S3 key
+   * @param bucket Bucket holding the key
+   * @param versionId Version to copy instead of the latest
+   */
+  private getCopySource(
+    key: string,
+    bucket = this.options.bucket,
+    versionId?: string,
+  ): string {
+    const source = `${bucket}/${key.split("/").map(encodeURIComponent).join("/")}`;
+    return versionId
+      ? `${source}?versionId=${encodeURIComponent(versionId)}`
+      : source;
+  }
+
   /**
    * Get content type based on file extension
    * @param path File path
    */
   private getContentType(path: string): string {
-    const ext = path.toLowerCase().split(".").pop();
-    const contentTypes: Record<string, string> = {
-      json: "application/json",
-      txt: "text/plain",
-      html: "text/html",
-      css: "text/css",
-      js: "application/javascript",
-      xml: "application/xml",
-      md: "text/markdown",
+    return (
+      lookupContentType(path, this.contentTypes) ??
+      this.options.defaultHeaders.contentType ??
+      "application/octet-stream"
+    );
+  }
+
+  /**
+   * Build the header parameters for a write
+   *
+   * Per-call headers win over `defaultHeaders`; the content type falls
+   * back to the extension lookup.
+   * @param path File path
+   * @param headers Per-call header overrides
+   */
+  private getObjectHeaders(
+    path: string,
+    headers: ObjectHeaderOptions = {},
+  ): ObjectHeaders {
+    const defaults = this.options.defaultHeaders;
+
+    return {
+      ContentType: headers.contentType ?? this.getContentType(path),
+      CacheControl: headers.cacheControl ?? defaults.cacheControl,
+      ContentDisposition:
+        headers.contentDisposition ?? defaults.contentDisposition,
+      ContentEncoding: headers.contentEncoding ?? defaults.contentEncoding,
+      ContentLanguage: headers.contentLanguage ?? defaults.contentLanguage,
+      Expires: headers.expires ?? defaults.expires,
+      ACL: headers.acl ?? defaults.acl,
+      StorageClass: headers.storageClass ?? this.getStorageClass(path),
+    };
+  }
+
+  /**
+   * Resolve the storage class for a path from the prefix rules and defaults
+   * @param path File path in the bucket
+   */
+  private getStorageClass(path: string): StorageClass | undefined {
+    const normalized = path.replace(/^\.?\/+/, "").replace(/\/+/g, "/");
+    let match: string | undefined;
+
+    for (const prefix of Object.keys(this.options.storageClasses)) {
+      if (
+        normalized.startsWith(prefix) &&
+        prefix.length > (match?.length ?? -1)
+      ) {
+        match = prefix;
+      }
+    }
+
+    return match !== undefined
+      ? this.options.storageClasses[match]
+      : this.options.defaultHeaders.storageClass;
+  }
+
+  /**
+   * Validate the encryption options and encode the SSE-C key
+   * @param encryption Encryption options
+   * @returns The base64-encoded customer key, if any
+   */
+  private parseCustomerKey(encryption: EncryptionOptions): string | undefined {
+    const { customerKey } = encryption;
+    if (customerKey === undefined) {
+      return undefined;
+    }
+
+    if (encryption.serverSideEncryption || encryption.kmsKeyId) {
+      throw new Error(
+        "A customer-provided key can't be combined with serverSideEncryption or kmsKeyId",
+      );
+    }
+
+    const key =
+      typeof customerKey === "string"
+        ? Buffer.from(customerKey, "base64")
+        : Buffer.from(customerKey);
+    if (key.length !== 32) {
+      throw new Error(
+        `Customer-provided key must be 256 bits, got ${key.length * 8}`,
+      );
+    }
+    return key.toString("base64");
+  }
+
+  /**
+   * SSE-C parameters for requests that read or write object data
+   */
+  private customerKeyParams(): Pick<
+    HeadObjectCommandInput,
+    "SSECustomerAlgorithm" | "SSECustomerKey"
+  > {
+    return this.customerKey
+      ? { SSECustomerAlgorithm: "AES256", SSECustomerKey: this.customerKey }
+      : {};
+  }
+
+  /**
+   * SSE-C parameters for copies reading from this filesystem
+   */
+  private copySourceKeyParams(): Pick<
+    CopyObjectCommandInput,
+    "CopySourceSSECustomerAlgorithm" | "CopySourceSSECustomerKey"
+  > {
+    return this.customerKey
+      ? {
+          CopySourceSSECustomerAlgorithm: "AES256",
+          CopySourceSSECustomerKey: this.customerKey,
+        }
+      : {};
+  }
+
+  /**
+   * Encryption parameters for requests that create objects
+   */
+  private encryptionParams(): Pick<
+    PutObjectCommandInput,
+    | "ServerSideEncryption"
+    | "SSEKMSKeyId"
+    | "BucketKeyEnabled"
+    | "SSECustomerAlgorithm"
+    | "SSECustomerKey"
+  > {
+    const { serverSideEncryption, kmsKeyId, bucketKeyEnabled } =
+      this.options.encryption;
+
+    return {
+      ServerSideEncryption:
+        serverSideEncryption ?? (kmsKeyId ? "aws:kms" : undefined),
+      SSEKMSKeyId: kmsKeyId,
+      BucketKeyEnabled: bucketKeyEnabled,
+      ...this.customerKeyParams(),
     };
-    return contentTypes[ext || ""] || "application/octet-stream";
   }
 
   /**
@@ -473,56 +3579,248 @@ export class S3FileSystem implements IAsyncFileSystem {
   }
 
   /**
-   * Convert AWS SDK response body to string
+   * Check if error is a failed write precondition
+   *
+   * S3 answers 412 when the condition doesn't hold and a 409
+   * ConditionalRequestConflict when a concurrent conditional write to the
+   * same key won the race. Other 409s are unrelated conflicts.
+   * @param error Error object
+   */
+  private isPreconditionFailedError(error: unknown): boolean {
+    if (!error || typeof error !== "object") {
+      return false;
+    }
+
+    if (
+      "name" in error &&
+      ["PreconditionFailed", "ConditionalRequestConflict"].includes(
+        (error as { name: string }).name,
+      )
+    ) {
+      return true;
+    }
+
+    const status = (error as { $metadata?: { httpStatusCode?: number } })
+      .$metadata?.httpStatusCode;
+    return status === 412;
+  }
+
+  /**
+   * Check if error is a 304 response to a conditional request
+   * @param error Error object
+   */
+  private isNotModifiedError(error: unknown): boolean {
+    if (!error || typeof error !== "object") {
+      return false;
+    }
+
+    if ("name" in error && (error as { name: string }).name === "NotModified") {
+      return true;
+    }
+
+    return (
+      "$metadata" in error &&
+      (error as { $metadata?: { httpStatusCode?: number } }).$metadata
+        ?.httpStatusCode === 304
+    );
+  }
+
+  /**
+   * Check if error is a HEAD or GET of a specific version that is a delete marker
+   *
+   * S3 answers 405 Method Not Allowed for those.
+   * @param error Error object
+   */
+  private isDeleteMarkerError(error: unknown): boolean {
+    if (!error || typeof error !== "object") {
+      return false;
+    }
+
+    if (
+      "name" in error &&
+      (error as { name: string }).name === "MethodNotAllowed"
+    ) {
+      return true;
+    }
+
+    return (
+      "$metadata" in error &&
+      (error as { $metadata?: { httpStatusCode?: number } }).$metadata
+        ?.httpStatusCode === 405
+    );
+  }
+
+  /**
+   * Check if error is a read of an archived object that isn't restored
+   * @param error Error object
+   */
+  private isArchivedError(error: unknown): error is { StorageClass?: string } {
+    return (
+      !!error &&
+      typeof error === "object" &&
+      "name" in error &&
+      (error as { name: string }).name === "InvalidObjectState"
+    );
+  }
+
+  /**
+   * Check if error is a "range not satisfiable" error
+   * @param error Error object
+   */
+  private isInvalidRangeError(error: unknown): boolean {
+    if (!error || typeof error !== "object") {
+      return false;
+    }
+
+    if (
+      "name" in error &&
+      (error as { name: string }).name === "InvalidRange"
+    ) {
+      return true;
+    }
+
+    return (
+      "$metadata" in error &&
+      (error as { $metadata?: { httpStatusCode?: number } }).$metadata
+        ?.httpStatusCode === 416
+    );
+  }
+
+  /**
+   * Convert AWS SDK response body to a Buffer without decoding it
    * @param body Response body from AWS SDK
    */
-  private async bodyToString(body: unknown): Promise<string> {
+  private async bodyToBuffer(body: unknown): Promise<Buffer> {
     // Handle null/undefined/empty body
     if (!body) {
-      return "";
+      return Buffer.alloc(0);
+    }
+
+    if (Buffer.isBuffer(body)) {
+      return body;
     }
 
-    // AWS SDK v3 body can be a Readable stream, Blob, or other types
+    if (body instanceof Uint8Array) {
+      return Buffer.from(body.buffer, body.byteOffset, body.byteLength);
+    }
+
+    if (typeof body === "string") {
+      return Buffer.from(body, "utf8");
+    }
+
+    // AWS SDK v3 body mixin exposes the raw bytes directly
     if (
-      body &&
       typeof body === "object" &&
-      "transformToString" in body &&
-      typeof (body as { transformToString: () => Promise<string> })
-        .transformToString === "function"
+      "transformToByteArray" in body &&
+      typeof (body as { transformToByteArray: () => Promise<Uint8Array> })
+        .transformToByteArray === "function"
     ) {
-      // For modern AWS SDK v3, use transformToString if available
-      const result = await (
-        body as { transformToString: () => Promise<string> }
-      ).transformToString();
-      return result || "";
+      const bytes = await (
+        body as { transformToByteArray: () => Promise<Uint8Array> }
+      ).transformToByteArray();
+      return bytes ? Buffer.from(bytes) : Buffer.alloc(0);
     }
 
     // Handle as Node.js stream
-    if (body && typeof body === "object" && "pipe" in body) {
+    if (typeof body === "object" && "pipe" in body) {
       const chunks: Buffer[] = [];
       const stream = body as NodeJS.ReadableStream;
 
       return new Promise((resolve, reject) => {
-        stream.on("data", (chunk: Buffer) => chunks.push(chunk));
-        stream.on("end", () => {
-          const result = Buffer.concat(chunks).toString("utf8");
-          resolve(result || "");
-        });
+        stream.on("data", (chunk: Buffer | string) =>
+          chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk)),
+        );
+        stream.on("end", () => resolve(Buffer.concat(chunks)));
         stream.on("error", reject);
       });
     }
 
-    // Fallback: try to convert to string directly
-    if (typeof body === "string") {
-      return body;
+    // Fallback for bodies that can only produce text
+    if (
+      typeof body === "object" &&
+      "transformToString" in body &&
+      typeof (body as { transformToString: () => Promise<string> })
+        .transformToString === "function"
+    ) {
+      const result = await (
+        body as { transformToString: () => Promise<string> }
+      ).transformToString();
+      return Buffer.from(result || "", "utf8");
     }
 
-    if (body instanceof Uint8Array) {
-      const result = Buffer.from(body).toString("utf8");
-      return result || "";
+    throw new Error("Unsupported body type for conversion to buffer");
+  }
+
+  /**
+   * Collect object details from response headers
+   * @param source HEAD, GET or PUT response fields
+   */
+  private objectDetails(source: ObjectDetailsSource): S3ObjectDetails {
+    const algorithm = source.SSECustomerAlgorithm
+      ? "SSE-C"
+      : source.ServerSideEncryption;
+    const checksum = CHECKSUM_FIELDS.find(([field]) => source[field]);
+
+    return {
+      contentType: source.ContentType,
+      // S3 leaves the header out for STANDARD objects
+      storageClass: source.StorageClass ?? "STANDARD",
+      versionId: source.VersionId,
+      metadata: source.Metadata ?? {},
+      encryption: algorithm
+        ? {
+            algorithm,
+            kmsKeyId: source.SSEKMSKeyId,
+            bucketKeyEnabled: source.BucketKeyEnabled,
+          }
+        : undefined,
+      checksum: checksum
+        ? {
+            algorithm: checksum[1],
+            value: source[checksum[0]],
+            type: source.ChecksumType,
+          }
+        : undefined,
+    };
+  }
+
+  /**
+   * Describe an object from the parameters it was written with
+   * @param source Write parameters, merged with the response if any
+   */
+  private writtenDetails(
+    source: ObjectDetailsSource & Pick<ObjectHeaders, "ACL">,
+  ): S3ObjectDetails {
+    return { ...this.objectDetails(source), acl: source.ACL };
+  }
+
+  /**
+   * Remember the ACL of a cached object so stat can report its mode
+   * @param key Full S3 key
+   * @param acl Canned ACL now in effect
+   */
+  private async recordAcl(key: string, acl: ObjectCannedACL): Promise<void> {
+    const cached = await this.cache.peek(this.cacheKey(key));
+    if (cached?.details) {
+      await this.cache.set(this.cacheKey(key), {
+        ...cached,
+        details: { ...cached.details, acl },
+      });
     }
+  }
 
-    throw new Error("Unsupported body type for conversion to string");
+  /**
+   * Get the longest prefix shared by a set of keys
+   * @param keys S3 keys
+   */
+  private sharedPrefix(keys: string[]): string {
+    let prefix = keys[0] ?? "";
+    for (const key of keys) {
+      while (!key.startsWith(prefix)) {
+        prefix = prefix.slice(0, -1);
+      }
+    }
+    return prefix;
   }
 
   /**
@@ -530,13 +3828,17 @@ export class S3FileSystem implements IAsyncFileSystem {
    * @param size File size in bytes
    * @param lastModified Last modified date
    * @param isDirectory Is the file a directory
+   * @param object ETag and details of the object, when known
    */
   private createFileStats(
     size: number,
     lastModified: Date,
     isDirectory: boolean,
-  ): FileStats {
+    object?: Pick<S3FileCache, "etag" | "details">,
+  ): S3FileStats {
     return {
+      ...object?.details,
+      etag: object?.etag || undefined,
       isFile: () => !isDirectory,
       isDirectory: () => isDirectory,
       isSymbolicLink: () => false, // S3 doesn't support symlinks
@@ -544,7 +3846,15 @@ export class S3FileSystem implements IAsyncFileSystem {
       mtime: lastModified,
       ctime: lastModified, // S3 doesn't have separate creation time
       atime: lastModified, // S3 doesn't track access time
-      mode: 0o644, // Default permissions for S3 objects
+      // HEAD doesn't report ACLs - assume the one new objects get, so a
+      // mode copied with chmod never widens access
+      mode: isDirectory
+        ? 0o644
+        : this.options.aclMapping.toMode(
+            object?.details?.acl ??
+              this.options.defaultHeaders.acl ??
+              "private",
+          ),
     };
   }
 }
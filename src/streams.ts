@@ -0,0 +1,206 @@
+import { Readable, Writable } from "node:stream";
+import type { ReadableStream as WebReadableStream } from "node:stream/web";
+import { PutObjectCommand, type S3Client } from "@aws-sdk/client-s3";
+import {
+  MAX_PARTS,
+  MIN_PART_SIZE,
+  type MultipartProgress,
+  MultipartUpload,
+  type MultipartUploadOptions,
+} from "./multipart";
+
+/**
+ * Options for S3 write streams
+ */
+export interface S3WriteStreamOptions {
+  /** Size of each uploaded part in bytes (minimum 5 MiB) */
+  partSize?: number;
+  /** Content type of the resulting object */
+  contentType?: string;
+  /** Extra object parameters (headers, metadata, ...) */
+  objectParams?: MultipartUploadOptions["objectParams"];
+  /** Called after every uploaded part */
+  onProgress?: (progress: MultipartProgress) => void;
+}
+
+/**
+ * Result reported once a write stream has been committed to S3
+ */
+export interface S3WriteStreamResult {
+  size: number;
+  etag: string;
+}
+
+interface S3WriteStreamConfig extends S3WriteStreamOptions {
+  client: S3Client;
+  bucket: string;
+  key: string;
+  onComplete?: (result: S3WriteStreamResult) => void | Promise<void>;
+}
+
+/**
+ * Writable stream that uploads to S3 one part at a time
+ *
+ * At most one part is held in memory. Payloads smaller than a single
+ * part are sent with a plain PutObject; anything larger switches to a
+ * multipart upload, which is aborted if the stream fails. The size is
+ * not known up front, so a stream fails once it outgrows MAX_PARTS parts.
+ */
+export class S3WriteStream extends Writable {
+  private readonly config: S3WriteStreamConfig;
+  private readonly partSize: number;
+  private chunks: Buffer[] = [];
+  private buffered = 0;
+  private size = 0;
+  private partNumber = 0;
+  private upload?: MultipartUpload;
+
+  constructor(config: S3WriteStreamConfig) {
+    super();
+    this.config = config;
+    this.partSize = Math.max(config.partSize ?? MIN_PART_SIZE, MIN_PART_SIZE);
+  }
+
+  _write(
+    chunk: Buffer | string,
+    encoding: BufferEncoding,
+    callback: (error?: Error | null) => void,
+  ): void {
+    const data = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk, encoding);
+    this.chunks.push(data);
+    this.buffered += data.length;
+    this.size += data.length;
+
+    if (this.buffered < this.partSize) {
+      callback();
+      return;
+    }
+
+    this.flushParts().then(() => callback(), callback);
+  }
+
+  _final(callback: (error?: Error | null) => void): void {
+    this.finish().then(() => callback(), callback);
+  }
+
+  _destroy(
+    error: Error | null,
+    callback: (error?: Error | null) => void,
+  ): void {
+    if (!error || !this.upload) {
+      callback(error);
+      return;
+    }
+
+    this.upload.abort().then(
+      () => callback(error),
+      () => callback(error),
+    );
+  }
+
+  /**
+   * Upload every complete part currently buffered
+   */
+  private async flushParts(): Promise<void> {
+    const data = Buffer.concat(this.chunks);
+    let offset = 0;
+
+    while (data.length - offset >= this.partSize) {
+      await this.uploadPart(data.subarray(offset, offset + this.partSize));
+      offset += this.partSize;
+    }
+
+    const rest = data.subarray(offset);
+    this.chunks = rest.length > 0 ? [rest] : [];
+    this.buffered = rest.length;
+  }
+
+  private async uploadPart(body: Buffer): Promise<void> {
+    if (!this.upload) {
+      const { client, bucket, key, contentType, objectParams, onProgress } =
+        this.config;
+      this.upload = new MultipartUpload(client, bucket, key, {
+        partSize: this.partSize,
+        contentType,
+        objectParams,
+        onProgress,
+      });
+      await this.upload.start();
+    }
+
+    if (this.partNumber >= MAX_PARTS) {
+      throw new Error(
+        `Failed to write ${this.config.key}: more than ${MAX_PARTS} parts of ${this.partSize} bytes, use a larger partSize`,
+      );
+    }
+
+    this.partNumber++;
+    await this.upload.uploadPart(this.partNumber, body);
+  }
+
+  private async finish(): Promise<void> {
+    const rest = Buffer.concat(this.chunks);
+    this.chunks = [];
+    this.buffered = 0;
+
+    let etag: string;
+
+    if (!this.upload) {
+      const { client, bucket, key, contentType, objectParams } = this.config;
+      const response = await client.send(
+        new PutObjectCommand({
+          Bucket: bucket,
+          Key: key,
+          Body: rest,
+          ContentType: contentType,
+          ...objectParams,
+        }),
+      );
+      etag = response.ETag || "";
+    } else {
+      if (rest.length > 0) {
+        await this.uploadPart(rest);
+      }
+      ({ etag } = await this.upload.complete());
+    }
+
+    await this.config.onComplete?.({ size: this.size, etag });
+  }
+}
+
+/**
+ * Convert an AWS SDK response body to a Node.js Readable without buffering
+ * @param body Response body from AWS SDK
+ */
+export function bodyToReadable(body: unknown): Readable {
+  if (!body) {
+    return Readable.from([]);
+  }
+
+  if (body instanceof Readable) {
+    return body;
+  }
+
+  if (typeof body === "string" || body instanceof Uint8Array) {
+    return Readable.from([Buffer.from(body)]);
+  }
+
+  if (
+    typeof body === "object" &&
+    "transformToWebStream" in body &&
+    typeof (body as { transformToWebStream: () => WebReadableStream })
+      .transformToWebStream === "function"
+  ) {
+    return Readable.fromWeb(
+      (
+        body as { transformToWebStream: () => WebReadableStream }
+      ).transformToWebStream(),
+    );
+  }
+
+  if (typeof body === "object" && "pipe" in body) {
+    return new Readable().wrap(body as NodeJS.ReadableStream);
+  }
+
+  throw new Error("Unsupported body type for conversion to stream");
+}
@@ -0,0 +1,305 @@
+import { createHash } from "node:crypto";
+import { type Dirent, createReadStream, createWriteStream } from "node:fs";
+import { mkdir, readdir, rm, stat, utimes } from "node:fs/promises";
+import { dirname, join, relative, resolve, sep } from "node:path";
+import { pipeline } from "node:stream/promises";
+import { mapWithConcurrency } from "./concurrency";
+import type { S3FileSystem } from "./s3";
+
+/**
+ * How files on both sides are compared
+ * - size: only sizes are compared
+ * - mtime: sizes, then whether the source is newer than the destination
+ * - etag: sizes, then the local MD5 against the S3 ETag (falls back to
+ *   size for multipart ETags, which are not plain MD5 digests)
+ */
+export type SyncCompare = "size" | "mtime" | "etag";
+
+/**
+ * Which side is the source of truth
+ */
+export type SyncDirection = "upload" | "download";
+
+/**
+ * Options for sync
+ */
+export interface SyncOptions {
+  /** Copy local → S3 ("upload", default) or S3 → local ("download") */
+  direction?: SyncDirection;
+  /** Delete destination files that don't exist in the source */
+  delete?: boolean;
+  /** Only compute the plan, don't transfer or delete anything */
+  dryRun?: boolean;
+  /** Comparison strategy (default: "size") */
+  compare?: SyncCompare;
+  /** Number of files transferred in parallel (default: 4) */
+  concurrency?: number;
+}
+
+/**
+ * Single step of a sync plan
+ */
+export interface SyncChange {
+  action: "upload" | "download" | "delete";
+  /** Path relative to both sync roots, always "/" separated */
+  path: string;
+  /** Why the change is needed */
+  reason: "missing" | "size" | "mtime" | "etag" | "extraneous";
+  /** Bytes transferred by this change (0 for deletions) */
+  size: number;
+}
+
+/**
+ * Outcome of a sync run (or the plan of a dry run)
+ */
+export interface SyncResult {
+  direction: SyncDirection;
+  dryRun: boolean;
+  changes: SyncChange[];
+  /** Number of files that were already identical */
+  unchanged: number;
+  /** Bytes transferred (or to be transferred on a dry run) */
+  bytes: number;
+  /** Remote paths ignored because they would resolve outside the local directory */
+  skipped: string[];
+}
+
+interface SyncFileInfo {
+  size: number;
+  mtime: Date;
+  etag?: string;
+}
+
+/**
+ * Synchronise a local directory with an S3 directory
+ * @param fs S3 filesystem holding the remote directory
+ * @param localDir Local directory
+ * @param s3Dir Directory path in the S3 filesystem
+ * @param options Direction, deletion, dry run and comparison options
+ * @param exclude Remote directories (e.g. ".trash/") left out on both sides
+ */
+export async function syncDirectories(
+  fs: S3FileSystem,
+  localDir: string,
+  s3Dir: string,
+  options: SyncOptions = {},
+  exclude: string[] = [],
+): Promise<SyncResult> {
+  const direction = options.direction ?? "upload";
+  const compare = options.compare ?? "size";
+  const remoteRoot = s3Dir.replace(/^\.?\/+|\/+$/g, "");
+  const remotePath = (path: string) =>
+    remoteRoot ? `${remoteRoot}/${path}` : path;
+  const localPath = (path: string) => join(localDir, ...path.split("/"));
+  const localRoot = resolve(localDir);
+  const insideLocalRoot = (path: string) =>
+    resolve(localRoot, ...path.split("/")).startsWith(
+      localRoot.endsWith(sep) ? localRoot : `${localRoot}${sep}`,
+    );
+
+  const excluded = (path: string) =>
+    exclude.some((prefix) => remotePath(path).startsWith(prefix));
+
+  const local = await listLocalFiles(localDir);
+  for (const path of local.keys()) {
+    if (excluded(path)) {
+      local.delete(path);
+    }
+  }
+  const remote = new Map<string, SyncFileInfo>();
+  const skipped: string[] = [];
+  for await (const entry of fs.listObjects(remoteRoot ? `${remoteRoot}/` : "", {
+    recursive: true,
+  })) {
+    if (entry.isDirectory) {
+      continue;
+    }
+
+    const path = entry.path.slice(remoteRoot ? remoteRoot.length + 1 : 0);
+    if (excluded(path)) {
+      continue;
+    }
+    // Keys such as "a/../../x" must never be written or deleted locally
+    if (!insideLocalRoot(path)) {
+      skipped.push(path);
+      continue;
+    }
+
+    remote.set(path, {
+      size: entry.size,
+      mtime: entry.lastModified || new Date(0),
+      etag: entry.etag,
+    });
+  }
+
+  const [source, target] =
+    direction === "upload" ? [local, remote] : [remote, local];
+  const changes: SyncChange[] = [];
+  let unchanged = 0;
+
+  for (const [path, info] of source) {
+    const existing = target.get(path);
+    const reason = existing
+      ? await compareFiles(info, existing, compare, direction, () =>
+          md5File(localPath(path)),
+        )
+      : "missing";
+
+    if (reason) {
+      changes.push({ action: direction, path, reason, size: info.size });
+    } else {
+      unchanged++;
+    }
+  }
+
+  if (options.delete) {
+    for (const path of target.keys()) {
+      if (!source.has(path)) {
+        changes.push({ action: "delete", path, reason: "extraneous", size: 0 });
+      }
+    }
+  }
+
+  const result: SyncResult = {
+    direction,
+    dryRun: !!options.dryRun,
+    changes,
+    unchanged,
+    bytes: changes.reduce((total, change) => total + change.size, 0),
+    skipped,
+  };
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  const transfers = changes.filter((change) => change.action !== "delete");
+  await mapWithConcurrency(
+    transfers,
+    options.concurrency ?? 4,
+    async ({ path }) => {
+      if (direction === "upload") {
+        await pipeline(
+          createReadStream(localPath(path)),
+          fs.createWriteStream(remotePath(path)),
+        );
+      } else {
+        const file = localPath(path);
+        await mkdir(dirname(file), { recursive: true });
+        await pipeline(
+          fs.createReadStream(remotePath(path)),
+          createWriteStream(file),
+        );
+        // Match the remote timestamp so mtime comparisons stay stable
+        const mtime = remote.get(path)?.mtime;
+        if (mtime) {
+          await utimes(file, mtime, mtime);
+        }
+      }
+    },
+  );
+
+  const deletions = changes
+    .filter((change) => change.action === "delete")
+    .map((change) => change.path);
+  if (deletions.length > 0) {
+    if (direction === "upload") {
+      const { failed } = await fs.deleteFiles(deletions.map(remotePath));
+      if (failed.length > 0) {
+        throw new Error(
+          `Failed to delete ${failed.length} remote file(s): ${failed
+            .map((failure) => `${failure.key} (${failure.code})`)
+            .join(", ")}`,
+        );
+      }
+    } else {
+      for (const path of deletions) {
+        await rm(localPath(path), { force: true });
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Decide whether a destination file differs from its source
+ * @returns The reason for the difference, or null when identical
+ */
+async function compareFiles(
+  source: SyncFileInfo,
+  target: SyncFileInfo,
+  compare: SyncCompare,
+  direction: SyncDirection,
+  localMd5: () => Promise<string>,
+): Promise<SyncChange["reason"] | null> {
+  if (source.size !== target.size) {
+    return "size";
+  }
+
+  if (compare === "mtime" && source.mtime.getTime() > target.mtime.getTime()) {
+    return "mtime";
+  }
+
+  if (compare === "etag") {
+    const etag = (direction === "upload" ? target : source).etag || "";
+    const digest = etag.replace(/"/g, "");
+    // Multipart ETags ("<md5>-<parts>") are not an MD5 of the content
+    if (digest && !digest.includes("-") && digest !== (await localMd5())) {
+      return "etag";
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Recursively list regular files below a local directory
+ * @param root Local directory
+ */
+async function listLocalFiles(
+  root: string,
+): Promise<Map<string, SyncFileInfo>> {
+  const files = new Map<string, SyncFileInfo>();
+
+  const visit = async (dir: string): Promise<void> => {
+    let entries: Dirent[];
+    try {
+      entries = await readdir(dir, { withFileTypes: true });
+    } catch (error: unknown) {
+      // A missing local directory simply has no files yet
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return;
+      }
+      throw error;
+    }
+
+    for (const entry of entries) {
+      const path = join(dir, entry.name);
+      if (entry.isDirectory()) {
+        await visit(path);
+      } else if (entry.isFile()) {
+        const stats = await stat(path);
+        files.set(relative(root, path).split(sep).join("/"), {
+          size: stats.size,
+          mtime: stats.mtime,
+        });
+      }
+    }
+  };
+
+  await visit(root);
+  return files;
+}
+
+/**
+ * Compute the hex MD5 digest of a local file without loading it whole
+ * @param path Local file path
+ */
+async function md5File(path: string): Promise<string> {
+  const hash = createHash("md5");
+  for await (const chunk of createReadStream(path)) {
+    hash.update(chunk);
+  }
+  return hash.digest("hex");
+}
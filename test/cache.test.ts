@@ -0,0 +1,137 @@
+import { afterEach, describe, expect, test, vi } from 'vitest';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryCache } from '../src/cache.js';
+import { DiskCache } from '../src/disk-cache.js';
+
+const entry = (content?: string, etag = '"etag"') => ({
+  content: content === undefined ? undefined : Buffer.from(content),
+  size: content?.length ?? 0,
+  lastModified: new Date(),
+  etag
+});
+
+describe('MemoryCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  test('should evict the least recently used entry over the entry limit', async () => {
+    const cache = new MemoryCache({ maxEntries: 2 });
+    await cache.set('a', entry('a'));
+    await cache.set('b', entry('b'));
+    await cache.get('a');
+    await cache.set('c', entry('c'));
+
+    expect(await cache.peek('a')).toBeDefined();
+    expect(await cache.peek('b')).toBeUndefined();
+    expect(await cache.peek('c')).toBeDefined();
+    expect(cache.stats()).toMatchObject({ hits: 1, evictions: 1, entries: 2 });
+  });
+
+  test('should evict entries to stay within the byte limit', async () => {
+    const cache = new MemoryCache({ maxBytes: 10 });
+    await cache.set('a', entry('12345'));
+    await cache.set('b', entry('12345'));
+    await cache.set('c', entry('123'));
+
+    expect(await cache.peek('a')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 2, bytes: 8, evictions: 1 });
+  });
+
+  test('should keep metadata but not content larger than the byte limit', async () => {
+    const cache = new MemoryCache({ maxBytes: 4 });
+    await cache.set('big', entry('123456'));
+
+    expect(await cache.get('big')).toMatchObject({ size: 6, content: undefined });
+    expect(cache.stats().bytes).toBe(0);
+  });
+
+  test('should expire content and metadata independently', async () => {
+    vi.useFakeTimers();
+    const cache = new MemoryCache({ ttl: 1000, contentTtl: 100 });
+    await cache.set('a', entry('abc'));
+
+    vi.advanceTimersByTime(200);
+    expect(await cache.get('a')).toMatchObject({ size: 3, content: undefined });
+    expect(cache.stats().bytes).toBe(0);
+
+    vi.advanceTimersByTime(1000);
+    expect(await cache.get('a')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ misses: 1, entries: 0 });
+  });
+
+  test('should only cache metadata when content caching is disabled', async () => {
+    const cache = new MemoryCache({ cacheContent: false });
+    await cache.set('a', entry('abc'));
+
+    expect((await cache.get('a'))?.content).toBeUndefined();
+    expect(cache.stats().bytes).toBe(0);
+  });
+});
+
+describe('DiskCache', () => {
+  let directory: string;
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  test('should keep entries across instances', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fs-s3-cache-'));
+    const lastModified = new Date('2024-05-01T00:00:00Z');
+    await new DiskCache({ directory }).set('bucket/data.csv', { ...entry('a,b,c', '"v1"'), lastModified });
+
+    const reopened = new DiskCache({ directory });
+    const cached = await reopened.get('bucket/data.csv');
+
+    expect(cached?.content?.toString()).toBe('a,b,c');
+    expect(cached).toMatchObject({ size: 5, etag: '"v1"', lastModified });
+    expect(reopened.stats()).toMatchObject({ hits: 1, entries: 1, bytes: 5 });
+  });
+
+  test('should replace content stored under an older ETag', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fs-s3-cache-'));
+    const cache = new DiskCache({ directory });
+    await cache.set('bucket/data.csv', entry('old', '"v1"'));
+    await cache.set('bucket/data.csv', entry('newer', '"v2"'));
+
+    const files = await readdir(directory);
+    expect(files.filter((name) => name.endsWith('.bin'))).toHaveLength(1);
+    expect((await cache.get('bucket/data.csv'))?.content?.toString()).toBe('newer');
+  });
+
+  test('should handle concurrent writes to the same key', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fs-s3-cache-'));
+    const cache = new DiskCache({ directory });
+
+    await Promise.all(['one', 'two', 'three'].map((content) => cache.set('bucket/data.csv', entry(content, `"${content}"`))));
+
+    expect((await cache.get('bucket/data.csv'))?.content?.toString()).toBe('three');
+    expect(cache.stats()).toMatchObject({ entries: 1, bytes: 5 });
+    expect((await readdir(directory)).filter((name) => name.endsWith('.tmp'))).toHaveLength(0);
+  });
+
+  test('should not restore entries deleted while they are read', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fs-s3-cache-'));
+    const cache = new DiskCache({ directory });
+    await cache.set('bucket/data.csv', entry('a,b,c'));
+
+    await Promise.all([cache.get('bucket/data.csv'), cache.delete('bucket/data.csv')]);
+
+    expect(cache.stats()).toMatchObject({ entries: 0, bytes: 0 });
+    expect(await cache.peek('bucket/data.csv')).toBeUndefined();
+  });
+
+  test('should evict least recently used entries over the byte limit', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'fs-s3-cache-'));
+    const cache = new DiskCache({ directory, maxBytes: 8 });
+    await cache.set('bucket/a', entry('12345'));
+    await cache.set('bucket/b', entry('12345'));
+
+    expect(await cache.peek('bucket/a')).toBeUndefined();
+    expect(cache.stats()).toMatchObject({ entries: 1, bytes: 5, evictions: 1 });
+    expect(await readdir(directory)).toHaveLength(2);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, test } from 'vitest';
+import { globPrefix, globToRegExp, isGlob } from '../src/glob.js';
+
+describe('glob matching', () => {
+  const matches = (pattern: string, path: string) => globToRegExp(pattern).test(path);
+
+  test('should match single segments with * and ?', () => {
+    expect(matches('logs/*.log', 'logs/app.log')).toBe(true);
+    expect(matches('logs/*.log', 'logs/old/app.log')).toBe(false);
+    expect(matches('file-?.txt', 'file-1.txt')).toBe(true);
+    expect(matches('file-?.txt', 'file-10.txt')).toBe(false);
+  });
+
+  test('should match any depth with **', () => {
+    expect(matches('src/**/*.ts', 'src/index.ts')).toBe(true);
+    expect(matches('src/**/*.ts', 'src/a/b/c.ts')).toBe(true);
+    expect(matches('src/**', 'src/a/b/c.ts')).toBe(true);
+    expect(matches('**/*.json', 'config.json')).toBe(true);
+    expect(matches('src/**/*.ts', 'lib/index.ts')).toBe(false);
+  });
+
+  test('should expand nested brace sets', () => {
+    expect(matches('img/*.{png,jp{e,}g}', 'img/a.png')).toBe(true);
+    expect(matches('img/*.{png,jp{e,}g}', 'img/a.jpeg')).toBe(true);
+    expect(matches('img/*.{png,jp{e,}g}', 'img/a.jpg')).toBe(true);
+    expect(matches('img/*.{png,jp{e,}g}', 'img/a.gif')).toBe(false);
+  });
+
+  test('should treat regex characters and escapes literally', () => {
+    expect(matches('a+b(1).txt', 'a+b(1).txt')).toBe(true);
+    expect(matches('literal\\*.txt', 'literal*.txt')).toBe(true);
+    expect(matches('literal\\*.txt', 'literalX.txt')).toBe(false);
+  });
+
+  test('should derive the literal listing prefix', () => {
+    expect(globPrefix('logs/2024-*.txt')).toBe('logs/2024-');
+    expect(globPrefix('**/*.ts')).toBe('');
+    expect(globPrefix('data/{a,b}/x')).toBe('data/');
+    expect(isGlob('plain/file.txt')).toBe(false);
+  });
+
+  test('should reject unbalanced braces', () => {
+    expect(() => globToRegExp('a/{b,c')).toThrow('Unbalanced braces');
+  });
+});
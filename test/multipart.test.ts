@@ -0,0 +1,165 @@
+import { describe, expect, test, vi } from 'vitest';
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  HeadObjectCommand,
+  ListMultipartUploadsCommand,
+  ListPartsCommand,
+  S3Client,
+  UploadPartCommand,
+  UploadPartCopyCommand
+} from '@aws-sdk/client-s3';
+import {
+  MultipartUpload,
+  bufferSource,
+  type MultipartProgress,
+  type MultipartUploadState
+} from '../src/multipart.js';
+import { S3FileSystem } from '../src/s3.js';
+
+const MiB = 1024 * 1024;
+
+const createClient = (handler: (command: unknown) => unknown) =>
+  ({ send: vi.fn(async (command: unknown) => handler(command)) }) as unknown as S3Client & {
+    send: ReturnType<typeof vi.fn>;
+  };
+
+const sentCommands = <T>(client: { send: ReturnType<typeof vi.fn> }, type: new (...args: never[]) => T): T[] =>
+  client.send.mock.calls.map(([command]) => command).filter((command): command is T => command instanceof type);
+
+describe('MultipartUpload', () => {
+  test('should upload parts in parallel and report progress', async () => {
+    const client = createClient((command) => {
+      if (command instanceof CreateMultipartUploadCommand) return { UploadId: 'up-1' };
+      if (command instanceof UploadPartCommand) return { ETag: `"etag-${command.input.PartNumber}"` };
+      return { ETag: '"final"' };
+    });
+    const progress: MultipartProgress[] = [];
+
+    const upload = new MultipartUpload(client, 'bucket', 'big.bin', {
+      partSize: 5 * MiB,
+      concurrency: 2,
+      onProgress: (event) => progress.push(event)
+    });
+    const result = await upload.upload(bufferSource(Buffer.alloc(12 * MiB)));
+
+    expect(result).toEqual({ key: 'big.bin', uploadId: 'up-1', etag: '"final"', size: 12 * MiB, parts: 3 });
+    expect(progress).toHaveLength(3);
+    expect(progress[2].loaded).toBe(12 * MiB);
+
+    const [complete] = sentCommands(client, CompleteMultipartUploadCommand);
+    expect(complete.input.MultipartUpload?.Parts?.map((part) => part.PartNumber)).toEqual([1, 2, 3]);
+  });
+
+  test('should resume from persisted state and skip stored parts', async () => {
+    const state: MultipartUploadState = {
+      bucket: 'bucket',
+      key: 'big.bin',
+      uploadId: 'up-2',
+      partSize: 5 * MiB,
+      parts: [
+        { partNumber: 1, etag: '"p1"', size: 5 * MiB },
+        { partNumber: 2, etag: '"stale"', size: 5 * MiB }
+      ]
+    };
+    const client = createClient((command) => {
+      if (command instanceof ListPartsCommand) {
+        return { Parts: [{ PartNumber: 1, ETag: '"p1"' }, { PartNumber: 2, ETag: '"p2"' }] };
+      }
+      if (command instanceof UploadPartCommand) return { ETag: `"new-${command.input.PartNumber}"` };
+      return { ETag: '"final"' };
+    });
+    const checkpoints: MultipartUploadState[] = [];
+
+    const upload = new MultipartUpload(client, 'bucket', 'big.bin', {
+      resume: state,
+      onCheckpoint: (snapshot) => {
+        checkpoints.push(snapshot);
+      }
+    });
+    await upload.upload(bufferSource(Buffer.alloc(12 * MiB)));
+
+    expect(sentCommands(client, CreateMultipartUploadCommand)).toHaveLength(0);
+    expect(sentCommands(client, UploadPartCommand).map((command) => command.input.PartNumber)).toEqual([2, 3]);
+    expect(checkpoints.at(-1)?.parts.map((part) => part.etag)).toEqual(['"p1"', '"new-2"', '"new-3"']);
+  });
+
+  test('should abort the upload when a part keeps failing', async () => {
+    const client = createClient((command) => {
+      if (command instanceof CreateMultipartUploadCommand) return { UploadId: 'up-3' };
+      if (command instanceof UploadPartCommand) throw new Error('connection reset');
+      return {};
+    });
+
+    const upload = new MultipartUpload(client, 'bucket', 'big.bin', { retries: 1 });
+
+    await expect(upload.upload(bufferSource(Buffer.alloc(6 * MiB)))).rejects.toThrow('connection reset');
+    const [abort] = sentCommands(client, AbortMultipartUploadCommand);
+    expect(abort.input.UploadId).toBe('up-3');
+  });
+
+  test('should keep parts on failure when asked to', async () => {
+    const client = createClient((command) => {
+      if (command instanceof CreateMultipartUploadCommand) return { UploadId: 'up-4' };
+      throw new Error('connection reset');
+    });
+
+    const upload = new MultipartUpload(client, 'bucket', 'big.bin', { retries: 1, leavePartsOnError: true });
+
+    await expect(upload.upload(bufferSource(Buffer.alloc(1024)))).rejects.toThrow();
+    expect(sentCommands(client, AbortMultipartUploadCommand)).toHaveLength(0);
+  });
+});
+
+describe('S3FileSystem stale uploads', () => {
+  test('should abort only stale uploads under the prefix', async () => {
+    const send = vi.spyOn(S3Client.prototype, 'send').mockImplementation((async (command: unknown) => {
+      if (command instanceof ListMultipartUploadsCommand) {
+        return {
+          Uploads: [
+            { Key: 'app/old.bin', UploadId: 'old', Initiated: new Date(Date.now() - 48 * 3600 * 1000) },
+            { Key: 'app/new.bin', UploadId: 'new', Initiated: new Date() }
+          ]
+        };
+      }
+      return {};
+    }) as never);
+
+    const s3fs = new S3FileSystem({ region: 'us-east-1', bucket: 'bucket', prefix: 'app/' });
+    const aborted = await s3fs.abortStaleUploads();
+
+    expect(aborted.map((upload) => upload.uploadId)).toEqual(['old']);
+    const list = send.mock.calls[0][0] as ListMultipartUploadsCommand;
+    expect(list.input.Prefix).toBe('app/');
+    send.mockRestore();
+  });
+});
+
+describe('S3FileSystem multipart copy', () => {
+  test('should copy objects above 5 GiB with UploadPartCopy and keep headers', async () => {
+    const size = 6 * 1024 * MiB;
+    const send = vi.spyOn(S3Client.prototype, 'send').mockImplementation((async (command: unknown) => {
+      if (command instanceof HeadObjectCommand) {
+        return { ContentLength: size, ContentType: 'application/x-tar', Metadata: { owner: 'etl' } };
+      }
+      if (command instanceof CreateMultipartUploadCommand) return { UploadId: 'copy-1' };
+      if (command instanceof UploadPartCopyCommand) return { CopyPartResult: { ETag: '"part"' } };
+      return { ETag: '"copied"' };
+    }) as never);
+
+    const s3fs = new S3FileSystem({ region: 'us-east-1', bucket: 'bucket' });
+    await s3fs.copyFile('dumps/huge.tar', 'archive/huge.tar');
+
+    const commands = send.mock.calls.map(([command]) => command);
+    const create = commands.find((command) => command instanceof CreateMultipartUploadCommand) as CreateMultipartUploadCommand;
+    const parts = commands.filter((command) => command instanceof UploadPartCopyCommand) as UploadPartCopyCommand[];
+
+    expect(create.input).toMatchObject({ Key: 'archive/huge.tar', ContentType: 'application/x-tar', Metadata: { owner: 'etl' } });
+    expect(parts).toHaveLength(12);
+    expect(parts[0].input).toMatchObject({ CopySource: 'bucket/dumps/huge.tar', CopySourceRange: `bytes=0-${512 * MiB - 1}` });
+    expect(parts[11].input.CopySourceRange).toBe(`bytes=${11 * 512 * MiB}-${size - 1}`);
+    expect(commands.at(-1)).toBeInstanceOf(CompleteMultipartUploadCommand);
+    send.mockRestore();
+  });
+});
@@ -1,4 +1,26 @@
 import { describe, expect, test, beforeEach, vi } from 'vitest';
+import { PassThrough, Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import {
+  CompleteMultipartUploadCommand,
+  CopyObjectCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectAclCommand,
+  GetObjectCommand,
+  GetObjectTaggingCommand,
+  HeadObjectCommand,
+  ListObjectVersionsCommand,
+  ListObjectsV2Command,
+  PutObjectAclCommand,
+  PutObjectCommand,
+  PutObjectTaggingCommand,
+  RestoreObjectCommand,
+  UploadPartCommand
+} from '@aws-sdk/client-s3';
+import { MemoryCache } from '../src/cache.js';
+import { LockHeld, LockLost, ObjectArchived, PreconditionFailed } from '../src/errors.js';
 import { S3FileSystem } from '../src/s3.js';
 
 // Mock AWS SDK
@@ -10,8 +32,20 @@ vi.mock('@aws-sdk/client-s3', () => ({
   GetObjectCommand: vi.fn(),
   PutObjectCommand: vi.fn(),
   DeleteObjectCommand: vi.fn(),
+  DeleteObjectsCommand: vi.fn(),
   HeadObjectCommand: vi.fn(),
-  ListObjectsV2Command: vi.fn()
+  ListObjectsV2Command: vi.fn(),
+  CreateMultipartUploadCommand: vi.fn(),
+  UploadPartCommand: vi.fn(),
+  CompleteMultipartUploadCommand: vi.fn(),
+  AbortMultipartUploadCommand: vi.fn(),
+  CopyObjectCommand: vi.fn(),
+  GetObjectTaggingCommand: vi.fn(),
+  PutObjectTaggingCommand: vi.fn(),
+  GetObjectAclCommand: vi.fn(),
+  PutObjectAclCommand: vi.fn(),
+  RestoreObjectCommand: vi.fn(),
+  ListObjectVersionsCommand: vi.fn()
 }));
 
 describe('S3FileSystem (Async)', () => {
@@ -110,9 +144,1098 @@ describe('S3FileSystem (Async)', () => {
     });
   });
 
+  describe('binary content', () => {
+    test('should write and read binary data without decoding', async () => {
+      const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff, 0xfe]);
+
+      mockSend.mockResolvedValueOnce({ ETag: '"bin-etag"' });
+      mockSend.mockResolvedValueOnce({
+        Body: { transformToByteArray: vi.fn().mockResolvedValue(bytes) },
+        ContentLength: bytes.length,
+        LastModified: new Date(),
+        ETag: '"bin-etag"'
+      });
+
+      await s3FileSystem.writeFileBuffer('image.png', bytes);
+      s3FileSystem.clearCache();
+      const content = await s3FileSystem.readFileBuffer('image.png');
+
+      expect(Buffer.compare(content, Buffer.from(bytes))).toBe(0);
+    });
+
+    test('should serve binary content from cache after write', async () => {
+      const bytes = Buffer.from([0x00, 0x01, 0x80, 0xff]);
+      mockSend.mockResolvedValueOnce({ ETag: '"bin-etag"' });
+
+      await s3FileSystem.writeFileBuffer('blob.bin', bytes);
+      const content = await s3FileSystem.readFileBuffer('blob.bin');
+      const stats = await s3FileSystem.stat('blob.bin');
+
+      expect(content.equals(bytes)).toBe(true);
+      expect(stats.size).toBe(4);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    test('should honour text encoding on read and write', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"b64-etag"' });
+
+      await s3FileSystem.writeFile('data.b64', 'AAEC', 'base64');
+      const hex = await s3FileSystem.readFile('data.b64', 'hex');
+
+      expect(hex).toBe('000102');
+    });
+  });
+
+  describe('ranged reads', () => {
+    test('should request a byte range and report the object size', async () => {
+      mockSend.mockResolvedValueOnce({
+        Body: { transformToByteArray: vi.fn().mockResolvedValue(new Uint8Array([1, 2, 3, 4])) },
+        ContentRange: 'bytes 0-3/4096',
+        ETag: '"range-etag"'
+      });
+
+      const result = await s3FileSystem.readRange('data.parquet', 0, 3);
+
+      expect(GetObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ Range: 'bytes=0-3' }));
+      expect([...result.data]).toEqual([1, 2, 3, 4]);
+      expect(result).toMatchObject({ start: 0, end: 3, size: 4096 });
+    });
+
+    test('should read the tail of an object with a negative start', async () => {
+      mockSend.mockResolvedValueOnce({
+        Body: { transformToByteArray: vi.fn().mockResolvedValue(Buffer.from('tail')) },
+        ContentRange: 'bytes 96-99/100'
+      });
+
+      const result = await s3FileSystem.readRange('app.log', -4);
+
+      expect(GetObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ Range: 'bytes=-4' }));
+      expect(result.data.toString()).toBe('tail');
+      expect(result.start).toBe(96);
+    });
+
+    test('should translate positional reads into inclusive ranges', async () => {
+      mockSend.mockResolvedValueOnce({
+        Body: { transformToByteArray: vi.fn().mockResolvedValue(Buffer.alloc(10)) },
+        ContentRange: 'bytes 10-19/50'
+      });
+
+      const result = await s3FileSystem.read('blob.bin', 10, 10);
+
+      expect(GetObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ Range: 'bytes=10-19' }));
+      expect(result.end).toBe(19);
+    });
+
+    test('should refresh cached metadata when the real size differs', async () => {
+      mockSend.mockResolvedValueOnce({ ContentLength: 100, LastModified: new Date(), ETag: '"v1"' });
+      await s3FileSystem.stat('grown.log');
+
+      mockSend.mockResolvedValueOnce({
+        Body: { transformToByteArray: vi.fn().mockResolvedValue(Buffer.from('x')) },
+        ContentRange: 'bytes 0-0/200',
+        ETag: '"v2"'
+      });
+      await s3FileSystem.readRange('grown.log', 0, 0);
+
+      const stats = await s3FileSystem.stat('grown.log');
+      expect(stats.size).toBe(200);
+      expect(mockSend).toHaveBeenCalledTimes(2);
+    });
+
+    test('should slice cached content without calling S3', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"cached"' });
+      await s3FileSystem.writeFile('cached.txt', 'abcdefgh');
+
+      const result = await s3FileSystem.readRange('cached.txt', 2, 4);
+
+      expect(result.data.toString()).toBe('cde');
+      expect(result.size).toBe(8);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('conditional writes', () => {
+    const preconditionFailed = Object.assign(new Error('At least one of the pre-conditions you specified did not hold'), {
+      name: 'PreconditionFailed',
+      $metadata: { httpStatusCode: 412 }
+    });
+
+    test('should return the new ETag for chaining', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"v1"' }).mockResolvedValueOnce({ ETag: '"v2"' });
+
+      const first = await s3FileSystem.writeFile('state.json', '{}', { ifNoneMatch: '*' });
+      const second = await s3FileSystem.writeFile('state.json', '{"n":1}', { ifMatch: first.etag });
+
+      expect(second.etag).toBe('"v2"');
+      expect(PutObjectCommand).toHaveBeenNthCalledWith(1, expect.objectContaining({ IfNoneMatch: '*' }));
+      expect(PutObjectCommand).toHaveBeenNthCalledWith(2, expect.objectContaining({ IfMatch: '"v1"' }));
+    });
+
+    test('should raise PreconditionFailed and drop the stale cache entry', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"v1"' }).mockRejectedValueOnce(preconditionFailed);
+      await s3FileSystem.writeFile('state.json', '{}');
+
+      await expect(s3FileSystem.writeFile('state.json', '{"n":1}', { ifMatch: '"v0"' })).rejects.toBeInstanceOf(
+        PreconditionFailed
+      );
+      expect(s3FileSystem.getCacheStats().entries).toBe(0);
+    });
+
+    test('should only raise PreconditionFailed for conditional writes', async () => {
+      const aborted = Object.assign(new Error('A conflicting conditional operation is in progress'), {
+        name: 'OperationAborted',
+        $metadata: { httpStatusCode: 409 }
+      });
+      mockSend.mockRejectedValueOnce(aborted).mockRejectedValueOnce(aborted).mockRejectedValueOnce(preconditionFailed);
+
+      await expect(s3FileSystem.writeFile('state.json', '{}')).rejects.toThrow('Failed to write file state.json');
+      await expect(s3FileSystem.writeFile('state.json', '{}', { ifNoneMatch: '*' })).rejects.toThrow(
+        'Failed to write file state.json'
+      );
+      await expect(s3FileSystem.writeFile('state.json', '{}')).rejects.not.toBeInstanceOf(PreconditionFailed);
+    });
+
+    test('should check preconditions when completing multipart uploads', async () => {
+      const fs = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', multipartThreshold: 4 });
+      mockSend.mockImplementation(async () => ({ UploadId: 'up', ETag: '"part"' }));
+
+      await fs.writeFileBuffer('big.bin', Buffer.alloc(8), { ifNoneMatch: '*' });
+
+      expect(CompleteMultipartUploadCommand).toHaveBeenCalledWith(expect.objectContaining({ IfNoneMatch: '*' }));
+    });
+  });
+
+  describe('JSON documents', () => {
+    const jsonResponse = (value: unknown, etag: string) => ({
+      Body: { transformToString: vi.fn().mockResolvedValue(JSON.stringify(value)) },
+      ETag: etag
+    });
+    const conflict = Object.assign(new Error('Precondition Failed'), { name: 'PreconditionFailed', $metadata: { httpStatusCode: 412 } });
+
+    test('should parse and validate documents', async () => {
+      mockSend.mockResolvedValue(jsonResponse({ count: 'three' }, '"v1"'));
+      const validate = (value: unknown) => {
+        if (typeof (value as { count: unknown }).count !== 'number') throw new Error('count must be a number');
+        return value as { count: number };
+      };
+
+      await expect(s3FileSystem.readJSON('counter.json')).resolves.toEqual({ count: 'three' });
+      await expect(s3FileSystem.readJSON('counter.json', { validate })).rejects.toThrow(
+        'Invalid JSON document counter.json: Error: count must be a number'
+      );
+    });
+
+    test('should re-read and retry the mutator after a conflicting write', async () => {
+      const reads = [jsonResponse({ count: 1 }, '"v1"'), jsonResponse({ count: 5 }, '"v2"')];
+      const writes: unknown[] = [conflict, { ETag: '"v3"' }];
+      mockSend.mockImplementation(async (command: unknown) => {
+        const next = command instanceof GetObjectCommand ? reads.shift() : writes.shift();
+        if (next instanceof Error) throw next;
+        return next;
+      });
+
+      const result = await s3FileSystem.update<{ count: number }>('counter.json', (current) => ({
+        count: (current?.count ?? 0) + 1
+      }));
+
+      expect(result).toEqual({ count: 6 });
+      expect(PutObjectCommand).toHaveBeenNthCalledWith(1, expect.objectContaining({ IfMatch: '"v1"' }));
+      expect(PutObjectCommand).toHaveBeenLastCalledWith(
+        expect.objectContaining({ IfMatch: '"v2"', Body: Buffer.from('{"count":6}') })
+      );
+    });
+
+    test('should create missing documents with If-None-Match', async () => {
+      mockSend
+        .mockRejectedValueOnce(Object.assign(new Error('NoSuchKey'), { name: 'NoSuchKey' }))
+        .mockResolvedValueOnce({ ETag: '"v1"' });
+
+      await s3FileSystem.update<string[]>('list.json', (current) => [...(current ?? []), 'first']);
+
+      expect(PutObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ IfNoneMatch: '*', Body: Buffer.from('["first"]') }));
+    });
+
+    test('should give up after the configured retries', async () => {
+      mockSend.mockImplementation(async (command: unknown) => {
+        if (command instanceof GetObjectCommand) return jsonResponse({}, '"v1"');
+        throw conflict;
+      });
+
+      await expect(s3FileSystem.update('busy.json', () => ({}), { retries: 1 })).rejects.toBeInstanceOf(PreconditionFailed);
+      expect(PutObjectCommand).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('locks', () => {
+    const conflict = Object.assign(new Error('Precondition Failed'), { name: 'PreconditionFailed', $metadata: { httpStatusCode: 412 } });
+    const lockBody = (owner: string, expiresAt: Date, etag: string) => ({
+      Body: { transformToString: vi.fn().mockResolvedValue(JSON.stringify({ owner, expiresAt: expiresAt.toISOString() })) },
+      ETag: etag
+    });
+
+    test('should create the lock object with a create-only write', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"l1"' });
+
+      const lock = await s3FileSystem.acquireLock('nightly', { ttl: 30_000, owner: 'host-a' });
+
+      expect(lock.etag).toBe('"l1"');
+      expect(PutObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: '.locks/nightly.lock', IfNoneMatch: '*' })
+      );
+      const body = JSON.parse(vi.mocked(PutObjectCommand).mock.calls[0][0].Body as string);
+      expect(body.owner).toBe('host-a');
+      expect(new Date(body.expiresAt).getTime()).toBe(lock.expiresAt.getTime());
+    });
+
+    test('should report a lock that is still held', async () => {
+      mockSend
+        .mockRejectedValueOnce(conflict)
+        .mockResolvedValueOnce(lockBody('host-b', new Date(Date.now() + 60_000), '"l1"'));
+
+      await expect(s3FileSystem.acquireLock('nightly')).rejects.toBeInstanceOf(LockHeld);
+    });
+
+    test('should steal an expired lease conditionally on its ETag', async () => {
+      mockSend
+        .mockRejectedValueOnce(conflict)
+        .mockResolvedValueOnce(lockBody('host-b', new Date(Date.now() - 1000), '"stale"'))
+        .mockResolvedValueOnce({ ETag: '"l2"' });
+
+      const lock = await s3FileSystem.acquireLock('nightly', { owner: 'host-a' });
+
+      expect(lock.etag).toBe('"l2"');
+      expect(PutObjectCommand).toHaveBeenLastCalledWith(expect.objectContaining({ IfMatch: '"stale"' }));
+    });
+
+    test('should renew and release with the latest ETag', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"l1"' }).mockResolvedValueOnce({ ETag: '"l2"' }).mockResolvedValueOnce({});
+
+      const lock = await s3FileSystem.acquireLock('nightly', { ttl: 1000 });
+      await lock.renew(5000);
+      const released = await lock.release();
+
+      expect(released).toBe(true);
+      expect(PutObjectCommand).toHaveBeenLastCalledWith(expect.objectContaining({ IfMatch: '"l1"' }));
+      expect(DeleteObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ Key: '.locks/nightly.lock', IfMatch: '"l2"' }));
+    });
+
+    test('should report failed and lost releases', async () => {
+      const denied = Object.assign(new Error('Access Denied'), { name: 'AccessDenied', $metadata: { httpStatusCode: 403 } });
+      mockSend.mockResolvedValueOnce({ ETag: '"l1"' }).mockRejectedValueOnce(denied).mockRejectedValueOnce(conflict);
+
+      const lock = await s3FileSystem.acquireLock('nightly');
+
+      await expect(lock.release()).rejects.toThrow('Failed to release lock .locks/nightly.lock');
+      await expect(lock.release()).resolves.toBe(false);
+    });
+
+    test('should fail to renew a lease taken over by another holder', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"l1"' }).mockRejectedValueOnce(conflict);
+
+      const lock = await s3FileSystem.acquireLock('nightly');
+
+      await expect(lock.renew()).rejects.toBeInstanceOf(LockLost);
+    });
+  });
+
+  describe('storage classes', () => {
+    test('should pick the storage class per write, by prefix, then by default', async () => {
+      const fs = new S3FileSystem({
+        region: 'us-east-1',
+        bucket: 'test-bucket',
+        defaultHeaders: { storageClass: 'STANDARD_IA' },
+        storageClasses: { 'logs/': 'GLACIER_IR', 'logs/audit/': 'DEEP_ARCHIVE' }
+      });
+      mockSend.mockResolvedValue({ ETag: '"e"' });
+
+      await fs.writeFile('index.html', '<p/>');
+      await fs.writeFile('/logs/app.log', 'x');
+      await fs.writeFile('logs/audit/2024.log', 'x');
+      await fs.writeFile('logs/hot.log', 'x', { storageClass: 'STANDARD' });
+
+      expect(vi.mocked(PutObjectCommand).mock.calls.map(([input]) => input.StorageClass)).toEqual([
+        'STANDARD_IA',
+        'GLACIER_IR',
+        'DEEP_ARCHIVE',
+        'STANDARD'
+      ]);
+    });
+
+    test('should transition with an in-place copy', async () => {
+      mockSend
+        .mockResolvedValueOnce({ ContentLength: 3, ContentType: 'text/csv', Metadata: { source: 'etl' } })
+        .mockResolvedValueOnce({ CopyObjectResult: { ETag: '"t"' } });
+
+      await s3FileSystem.transition('exports/2020.csv', 'GLACIER');
+
+      expect(CopyObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Key: 'exports/2020.csv',
+          CopySource: 'test-bucket/exports/2020.csv',
+          MetadataDirective: 'REPLACE',
+          StorageClass: 'GLACIER',
+          ContentType: 'text/csv',
+          Metadata: { source: 'etl' }
+        })
+      );
+    });
+
+    test('should request restores and tolerate one already running', async () => {
+      mockSend
+        .mockResolvedValueOnce({})
+        .mockRejectedValueOnce(Object.assign(new Error('in progress'), { name: 'RestoreAlreadyInProgress' }));
+
+      await s3FileSystem.restore('exports/2020.csv', { days: 7, tier: 'Bulk' });
+      await s3FileSystem.restore('exports/2020.csv');
+
+      expect(vi.mocked(RestoreObjectCommand).mock.calls.map(([input]) => input.RestoreRequest)).toEqual([
+        { Days: 7, GlacierJobParameters: { Tier: 'Bulk' } },
+        { Days: 1, GlacierJobParameters: { Tier: 'Standard' } }
+      ]);
+    });
+
+    test('should report restore progress', async () => {
+      mockSend
+        .mockResolvedValueOnce({ StorageClass: 'GLACIER' })
+        .mockResolvedValueOnce({ StorageClass: 'GLACIER', Restore: 'ongoing-request="true"' })
+        .mockResolvedValueOnce({
+          StorageClass: 'DEEP_ARCHIVE',
+          Restore: 'ongoing-request="false", expiry-date="Fri, 21 Dec 2012 00:00:00 GMT"'
+        })
+        .mockResolvedValueOnce({});
+
+      expect(await s3FileSystem.getRestoreStatus('a')).toEqual({
+        storageClass: 'GLACIER',
+        archived: true,
+        ongoing: false,
+        restoredUntil: undefined,
+        readable: false
+      });
+      expect(await s3FileSystem.getRestoreStatus('a')).toMatchObject({ ongoing: true, readable: false });
+      expect(await s3FileSystem.getRestoreStatus('a')).toMatchObject({
+        storageClass: 'DEEP_ARCHIVE',
+        ongoing: false,
+        restoredUntil: new Date('2012-12-21T00:00:00Z'),
+        readable: true
+      });
+      expect(await s3FileSystem.getRestoreStatus('b')).toMatchObject({ storageClass: 'STANDARD', archived: false, readable: true });
+    });
+
+    test('should raise ObjectArchived when reading an archived object', async () => {
+      mockSend.mockRejectedValue(
+        Object.assign(new Error('The operation is not valid for the object\'s storage class'), {
+          name: 'InvalidObjectState',
+          StorageClass: 'DEEP_ARCHIVE',
+          $metadata: { httpStatusCode: 403 }
+        })
+      );
+
+      const error = await s3FileSystem.readFile('exports/2020.csv').catch((e) => e);
+
+      expect(error).toBeInstanceOf(ObjectArchived);
+      expect(error).toMatchObject({ path: 'exports/2020.csv', storageClass: 'DEEP_ARCHIVE' });
+      await expect(s3FileSystem.readRange('exports/2020.csv', 0, 9)).rejects.toBeInstanceOf(ObjectArchived);
+    });
+  });
+
+  describe('trash', () => {
+    const deletedAt = 1700000000000;
+    const createFileSystem = () =>
+      new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', prefix: 'app', trash: true });
+
+    test('should copy files into the trash before deleting them', async () => {
+      const now = vi.spyOn(Date, 'now').mockReturnValue(deletedAt);
+      try {
+        const fs = createFileSystem();
+        mockSend
+          .mockResolvedValueOnce({ ContentLength: 3, ContentType: 'text/plain', Metadata: { author: 'sam' } })
+          .mockResolvedValueOnce({ CopyObjectResult: { ETag: '"t"' } })
+          .mockResolvedValueOnce({});
+
+        await fs.deleteFile('docs/a.txt');
+
+        expect(CopyObjectCommand).toHaveBeenCalledWith(
+          expect.objectContaining({
+            Key: `app/.trash/${deletedAt}/docs/a.txt`,
+            CopySource: 'test-bucket/app/docs/a.txt',
+            MetadataDirective: 'REPLACE',
+            ContentType: 'text/plain',
+            Metadata: { author: 'sam', 'trash-original-path': 'docs/a.txt' }
+          })
+        );
+        expect(DeleteObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ Key: 'app/docs/a.txt' }));
+      } finally {
+        now.mockRestore();
+      }
+    });
+
+    test('should not delete a file that could not be trashed', async () => {
+      const fs = createFileSystem();
+      mockSend.mockRejectedValueOnce(Object.assign(new Error('AccessDenied'), { name: 'AccessDenied' }));
+
+      await expect(fs.deleteFile('docs/a.txt')).rejects.toThrow('Failed to move docs/a.txt to the trash');
+      expect(DeleteObjectCommand).not.toHaveBeenCalled();
+    });
+
+    test('should trash directories while sparing the trash itself', async () => {
+      const fs = createFileSystem();
+      mockSend.mockImplementation(async (command) => {
+        if (command instanceof ListObjectsV2Command) {
+          return { Contents: [{ Key: 'app/.trash/1/old.txt' }, { Key: 'app/a.txt' }, { Key: 'app/b/c.txt' }] };
+        }
+        if (command instanceof HeadObjectCommand) return { ContentLength: 1 };
+        if (command instanceof CopyObjectCommand) return { CopyObjectResult: { ETag: '"t"' } };
+        return {};
+      });
+
+      const result = await fs.deleteDir('');
+
+      expect(vi.mocked(CopyObjectCommand).mock.calls.map(([input]) => input.CopySource)).toEqual([
+        'test-bucket/app/a.txt',
+        'test-bucket/app/b/c.txt'
+      ]);
+      expect(DeleteObjectsCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Delete: expect.objectContaining({ Objects: [{ Key: 'app/a.txt' }, { Key: 'app/b/c.txt' }] }) })
+      );
+      expect(result.deleted).toEqual(['app/a.txt', 'app/b/c.txt']);
+    });
+
+    test('should delete lock objects without trashing them', async () => {
+      const fs = createFileSystem();
+      mockSend.mockImplementation(async (command) => {
+        if (command instanceof PutObjectCommand) return { ETag: '"l1"' };
+        if (command instanceof HeadObjectCommand) return { ContentLength: 1 };
+        if (command instanceof CopyObjectCommand) return { CopyObjectResult: { ETag: '"t"' } };
+        return {};
+      });
+
+      const lock = await fs.acquireLock('nightly');
+      await expect(lock.release()).resolves.toBe(true);
+      await fs.deleteFile('.locks/stale.lock');
+      await fs.deleteFiles(['.locks/other.lock', 'a.txt']);
+
+      expect(vi.mocked(CopyObjectCommand).mock.calls.map(([input]) => input.CopySource)).toEqual(['test-bucket/app/a.txt']);
+      expect(DeleteObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: 'app/.locks/nightly.lock', IfMatch: '"l1"' })
+      );
+      expect(DeleteObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ Key: 'app/.locks/stale.lock' }));
+      expect(DeleteObjectsCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Delete: expect.objectContaining({ Objects: [{ Key: 'app/.locks/other.lock' }, { Key: 'app/a.txt' }] })
+        })
+      );
+    });
+
+    test('should list trashed files with their original paths', async () => {
+      const fs = createFileSystem();
+      mockSend.mockResolvedValueOnce({
+        Contents: [
+          { Key: `app/.trash/${deletedAt}/docs/a.txt`, Size: 3 },
+          { Key: 'app/.trash/stray.txt', Size: 1 }
+        ]
+      });
+
+      expect(await fs.listTrash()).toEqual([
+        { path: `.trash/${deletedAt}/docs/a.txt`, originalPath: 'docs/a.txt', deletedAt: new Date(deletedAt), size: 3 }
+      ]);
+      expect(ListObjectsV2Command).toHaveBeenCalledWith(expect.objectContaining({ Prefix: 'app/.trash/' }));
+    });
+
+    test('should restore a trashed file to its original path', async () => {
+      const fs = createFileSystem();
+      mockSend
+        .mockRejectedValueOnce(Object.assign(new Error('NotFound'), { name: 'NotFound', $metadata: { httpStatusCode: 404 } }))
+        .mockResolvedValueOnce({ ContentLength: 3, Metadata: { author: 'sam', 'trash-original-path': 'docs/a.txt' } })
+        .mockResolvedValueOnce({ CopyObjectResult: { ETag: '"r"' } })
+        .mockResolvedValueOnce({});
+
+      expect(await fs.restoreFromTrash(`.trash/${deletedAt}/docs/a.txt`)).toBe('docs/a.txt');
+      expect(CopyObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: 'app/docs/a.txt', Metadata: { author: 'sam' }, MetadataDirective: 'REPLACE' })
+      );
+      expect(DeleteObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ Key: `app/.trash/${deletedAt}/docs/a.txt` }));
+    });
+
+    test('should not overwrite an existing file when restoring', async () => {
+      const fs = createFileSystem();
+      mockSend.mockResolvedValueOnce({ ETag: '"new"' });
+
+      await expect(fs.restoreFromTrash(`.trash/${deletedAt}/docs/a.txt`)).rejects.toThrow('docs/a.txt already exists');
+      expect(CopyObjectCommand).not.toHaveBeenCalled();
+    });
+
+    test('should only purge deletions older than the given age', async () => {
+      const fs = createFileSystem();
+      mockSend.mockResolvedValueOnce({
+        Contents: [{ Key: `app/.trash/${Date.now() - 120_000}/old.txt` }, { Key: `app/.trash/${Date.now()}/new.txt` }]
+      }).mockResolvedValueOnce({});
+
+      const result = await fs.emptyTrash({ olderThan: 60_000 });
+
+      expect(result.deleted).toHaveLength(1);
+      expect(result.deleted[0]).toMatch(/old\.txt$/);
+    });
+
+    test('should keep trash keys of unknown age when purging by age', async () => {
+      const fs = createFileSystem();
+      mockSend.mockResolvedValue({ Contents: [{ Key: 'app/.trash/stray.txt' }] });
+
+      expect((await fs.emptyTrash({ olderThan: 60_000 })).deleted).toEqual([]);
+      expect((await fs.emptyTrash()).deleted).toEqual(['app/.trash/stray.txt']);
+    });
+  });
+
+  describe('versioning', () => {
+    const deleteMarker = Object.assign(new Error('MethodNotAllowed'), {
+      name: 'MethodNotAllowed',
+      $metadata: { httpStatusCode: 405 }
+    });
+
+    test('should list versions and delete markers of one key, newest first', async () => {
+      mockSend
+        .mockResolvedValueOnce({
+          Versions: [
+            { Key: 'report.csv', VersionId: 'v1', IsLatest: false, LastModified: new Date('2024-01-01'), Size: 3, ETag: '"a"' },
+            { Key: 'report.csv', VersionId: 'v2', IsLatest: false, LastModified: new Date('2024-02-01'), Size: 4, ETag: '"b"' }
+          ],
+          IsTruncated: true,
+          NextKeyMarker: 'report.csv',
+          NextVersionIdMarker: 'v2'
+        })
+        .mockResolvedValueOnce({
+          Versions: [{ Key: 'report.csv.bak', VersionId: 'x1', IsLatest: true, LastModified: new Date('2024-04-01') }],
+          DeleteMarkers: [{ Key: 'report.csv', VersionId: 'd1', IsLatest: true, LastModified: new Date('2024-03-01') }],
+          IsTruncated: true,
+          NextKeyMarker: 'report.csv.bak',
+          NextVersionIdMarker: 'x1'
+        });
+
+      const versions = await s3FileSystem.listVersions('report.csv');
+
+      expect(ListObjectVersionsCommand).toHaveBeenCalledTimes(2);
+      expect(ListObjectVersionsCommand).toHaveBeenLastCalledWith(
+        expect.objectContaining({ Prefix: 'report.csv', KeyMarker: 'report.csv', VersionIdMarker: 'v2' })
+      );
+      expect(versions.map((version) => [version.versionId, version.isLatest, version.isDeleteMarker])).toEqual([
+        ['d1', true, true],
+        ['v2', false, false],
+        ['v1', false, false]
+      ]);
+    });
+
+    test('should read a specific version without touching the cache', async () => {
+      mockSend.mockResolvedValueOnce({
+        Body: { transformToByteArray: vi.fn().mockResolvedValue(Buffer.from('old')) },
+        ETag: '"a"'
+      });
+
+      expect(await s3FileSystem.readFile('report.csv', { versionId: 'v1' })).toBe('old');
+      expect(GetObjectCommand).toHaveBeenCalledWith({ Bucket: 'test-bucket', Key: 'report.csv', VersionId: 'v1' });
+      expect(s3FileSystem.getCacheStats().entries).toBe(0);
+    });
+
+    test('should stat a specific version', async () => {
+      mockSend.mockResolvedValueOnce({ ContentLength: 3, ETag: '"a"', VersionId: 'v1' }).mockRejectedValueOnce(deleteMarker);
+
+      expect(await s3FileSystem.stat('report.csv', { versionId: 'v1' })).toMatchObject({ size: 3, versionId: 'v1' });
+      expect(HeadObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ VersionId: 'v1' }));
+      await expect(s3FileSystem.stat('report.csv', { versionId: 'd1' })).rejects.toThrow('File not found: report.csv');
+    });
+
+    test('should treat delete markers as missing in exists', async () => {
+      const latestIsMarker = Object.assign(new Error('NotFound'), { name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+      mockSend.mockRejectedValueOnce(latestIsMarker).mockRejectedValueOnce(deleteMarker).mockResolvedValueOnce({ ETag: '"a"' });
+
+      expect(await s3FileSystem.exists('report.csv')).toBe(false);
+      expect(await s3FileSystem.exists('report.csv', { versionId: 'd1' })).toBe(false);
+      expect(await s3FileSystem.exists('report.csv', { versionId: 'v1' })).toBe(true);
+    });
+
+    test('should restore an old version by copying it over the latest', async () => {
+      mockSend.mockResolvedValueOnce({ ContentLength: 3 }).mockResolvedValueOnce({ CopyObjectResult: { ETag: '"a"' } });
+
+      await s3FileSystem.restoreVersion('reports/q1.csv', 'v1');
+
+      expect(HeadObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ Key: 'reports/q1.csv', VersionId: 'v1' }));
+      expect(CopyObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Key: 'reports/q1.csv',
+          CopySource: 'test-bucket/reports/q1.csv?versionId=v1',
+          MetadataDirective: 'COPY'
+        })
+      );
+    });
+
+    test('should permanently delete a version and drop the cached entry', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"w"' }).mockResolvedValueOnce({});
+      await s3FileSystem.writeFile('report.csv', 'new');
+
+      await s3FileSystem.deleteVersion('report.csv', 'v2');
+
+      expect(DeleteObjectCommand).toHaveBeenCalledWith({ Bucket: 'test-bucket', Key: 'report.csv', VersionId: 'v2' });
+      expect(s3FileSystem.getCacheStats().entries).toBe(0);
+    });
+  });
+
+  describe('encryption', () => {
+    const customerKey = Buffer.alloc(32, 7);
+    const sseC = { SSECustomerAlgorithm: 'AES256', SSECustomerKey: customerKey.toString('base64') };
+
+    test('should write with SSE-KMS and report it from stat', async () => {
+      const fs = new S3FileSystem({
+        region: 'us-east-1',
+        bucket: 'test-bucket',
+        multipartThreshold: 4,
+        encryption: { kmsKeyId: 'alias/app', bucketKeyEnabled: true }
+      });
+      mockSend.mockResolvedValue({ UploadId: 'up', ETag: '"e"' });
+
+      await fs.writeFile('small.txt', 'abc');
+      await fs.writeFileBuffer('big.bin', Buffer.alloc(8));
+
+      const kms = { ServerSideEncryption: 'aws:kms', SSEKMSKeyId: 'alias/app', BucketKeyEnabled: true };
+      expect(PutObjectCommand).toHaveBeenCalledWith(expect.objectContaining(kms));
+      expect(CreateMultipartUploadCommand).toHaveBeenCalledWith(expect.objectContaining(kms));
+      expect((await fs.stat('small.txt')).encryption).toEqual({
+        algorithm: 'aws:kms',
+        kmsKeyId: 'alias/app',
+        bucketKeyEnabled: true
+      });
+    });
+
+    test('should send the customer key on every read, head and write', async () => {
+      const fs = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', multipartThreshold: 4, encryption: { customerKey } });
+      mockSend.mockImplementation(async (command) => {
+        if (command instanceof GetObjectCommand) {
+          return { Body: { transformToByteArray: vi.fn().mockResolvedValue(Buffer.from('abc')) }, ETag: '"e"' };
+        }
+        if (command instanceof HeadObjectCommand) {
+          return { ContentLength: 3, ETag: '"e"', SSECustomerAlgorithm: 'AES256' };
+        }
+        return { UploadId: 'up', ETag: '"e"' };
+      });
+
+      await fs.readFile('secret.txt');
+      await fs.readRange('other.txt', 0, 1);
+      expect((await fs.stat('missing-from-cache.txt')).encryption).toEqual({ algorithm: 'SSE-C' });
+      await fs.writeFile('note.txt', 'abc');
+      await fs.writeFileBuffer('big.bin', Buffer.alloc(8));
+
+      for (const command of [GetObjectCommand, HeadObjectCommand, PutObjectCommand, CreateMultipartUploadCommand, UploadPartCommand, CompleteMultipartUploadCommand]) {
+        for (const [input] of vi.mocked(command).mock.calls) {
+          expect(input).toMatchObject(sseC);
+        }
+      }
+      expect(GetObjectCommand).toHaveBeenCalledTimes(2);
+    });
+
+    test('should decrypt the copy source with its key and encrypt the copy with the target settings', async () => {
+      const source = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', encryption: { customerKey } });
+      const target = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', prefix: 'kms', encryption: { serverSideEncryption: 'aws:kms' } });
+      mockSend.mockResolvedValueOnce({ ContentLength: 3 }).mockResolvedValueOnce({ CopyObjectResult: { ETag: '"c"' } });
+
+      await source.setMetadata('a.txt', { owner: 'ops' });
+      expect(HeadObjectCommand).toHaveBeenCalledWith(expect.objectContaining(sseC));
+      expect(CopyObjectCommand).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          CopySourceSSECustomerAlgorithm: 'AES256',
+          CopySourceSSECustomerKey: sseC.SSECustomerKey,
+          ...sseC
+        })
+      );
+
+      mockSend
+        .mockResolvedValueOnce({ Contents: [{ Key: 'data/a.txt', Size: 3 }] })
+        .mockResolvedValueOnce({ CopyObjectResult: { ETag: '"c"' } })
+        .mockResolvedValueOnce({ Contents: [{ Key: 'kms/data/a.txt', Size: 3 }] });
+      await source.copyDir('data', 'data', { target, serverSide: true });
+      const [input] = vi.mocked(CopyObjectCommand).mock.lastCall ?? [];
+      expect(input).toMatchObject({ CopySourceSSECustomerKey: sseC.SSECustomerKey, ServerSideEncryption: 'aws:kms' });
+      expect(input).not.toHaveProperty('SSECustomerKey');
+    });
+
+    test('should reject invalid encryption options', () => {
+      expect(
+        () => new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', encryption: { customerKey, kmsKeyId: 'alias/app' } })
+      ).toThrow("A customer-provided key can't be combined with serverSideEncryption or kmsKeyId");
+      expect(
+        () => new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', encryption: { customerKey: 'c2hvcnQ=' } })
+      ).toThrow('Customer-provided key must be 256 bits, got 40');
+    });
+  });
+
+  describe('metadata and tags', () => {
+    test('should store metadata with writes', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"m1"' });
+
+      await s3FileSystem.writeFile('report.csv', 'a,b', { metadata: { source: 'etl' } });
+
+      expect(PutObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ Metadata: { source: 'etl' } }));
+    });
+
+    test('should read metadata from HEAD', async () => {
+      mockSend.mockResolvedValueOnce({ ContentLength: 3, Metadata: { source: 'etl' } });
+
+      expect(await s3FileSystem.getMetadata('report.csv')).toEqual({ source: 'etl' });
+    });
+
+    test('should replace metadata with an in-place copy that keeps content headers', async () => {
+      mockSend
+        .mockResolvedValueOnce({ ContentLength: 3, ContentType: 'text/csv', CacheControl: 'no-cache', Metadata: { old: '1' } })
+        .mockResolvedValueOnce({ CopyObjectResult: { ETag: '"m2"' } });
+
+      await s3FileSystem.setMetadata('reports/q1.csv', { owner: 'finance' });
+
+      expect(CopyObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          Key: 'reports/q1.csv',
+          CopySource: 'test-bucket/reports/q1.csv',
+          MetadataDirective: 'REPLACE',
+          ContentType: 'text/csv',
+          CacheControl: 'no-cache',
+          Metadata: { owner: 'finance' }
+        })
+      );
+    });
+
+    test('should map tags to and from tag sets', async () => {
+      mockSend.mockResolvedValueOnce({ TagSet: [{ Key: 'team', Value: 'data' }] }).mockResolvedValueOnce({});
+
+      expect(await s3FileSystem.getTags('report.csv')).toEqual({ team: 'data' });
+      await s3FileSystem.setTags('report.csv', { team: 'data', tier: 'gold' });
+
+      expect(GetObjectTaggingCommand).toHaveBeenCalledWith({ Bucket: 'test-bucket', Key: 'report.csv' });
+      expect(PutObjectTaggingCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'report.csv',
+        Tagging: { TagSet: [{ Key: 'team', Value: 'data' }, { Key: 'tier', Value: 'gold' }] }
+      });
+    });
+  });
+
+  describe('copy and rename', () => {
+    test('should copy server side with CopyObject', async () => {
+      mockSend.mockResolvedValueOnce({ ContentLength: 42, ContentType: 'image/png' });
+      mockSend.mockResolvedValueOnce({ CopyObjectResult: { ETag: '"copy-etag"' } });
+
+      await s3FileSystem.copyFile('photos/my cat.png', 'backup/my cat.png');
+
+      expect(CopyObjectCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Key: 'backup/my cat.png',
+        CopySource: 'test-bucket/photos/my%20cat.png',
+        MetadataDirective: 'COPY'
+      });
+      const stats = await s3FileSystem.stat('backup/my cat.png');
+      expect(stats.size).toBe(42);
+      expect(mockSend).toHaveBeenCalledTimes(2);
+    });
+
+    test('should carry cached content over to the copy', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"src"' });
+      mockSend.mockResolvedValueOnce({ CopyObjectResult: { ETag: '"dest"' } });
+
+      await s3FileSystem.writeFile('a.txt', 'same bytes');
+      await s3FileSystem.copyFile('a.txt', 'b.txt');
+
+      expect(await s3FileSystem.readFile('b.txt')).toBe('same bytes');
+      expect(mockSend).toHaveBeenCalledTimes(2);
+    });
+
+    test('should rename by copying then deleting the source', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"src"' });
+      mockSend.mockResolvedValue({});
+
+      await s3FileSystem.writeFile('old.txt', 'content');
+      await s3FileSystem.rename('old.txt', 'new.txt');
+
+      expect(CopyObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ Key: 'new.txt' }));
+      expect(DeleteObjectCommand).toHaveBeenCalledWith({ Bucket: 'test-bucket', Key: 'old.txt' });
+      expect(await s3FileSystem.readFile('new.txt')).toBe('content');
+    });
+
+    test('should report a missing source', async () => {
+      mockSend.mockRejectedValueOnce(Object.assign(new Error('NotFound'), { name: 'NoSuchKey' }));
+
+      await expect(s3FileSystem.copyFile('missing.txt', 'dest.txt')).rejects.toThrow('File not found: missing.txt');
+    });
+  });
+
+  describe('directory copy and move', () => {
+    const listing = (objects: Record<string, { Key: string; Size: number }[]>) =>
+      mockSend.mockImplementation(async (command) => {
+        if (command instanceof ListObjectsV2Command) {
+          const prefix = vi.mocked(ListObjectsV2Command).mock.lastCall?.[0]?.Prefix ?? '';
+          return { Contents: objects[prefix] ?? [] };
+        }
+        if (command instanceof GetObjectCommand) {
+          return { Body: Readable.from([Buffer.from('streamed')]), ContentLength: 8 };
+        }
+        return { CopyObjectResult: { ETag: '"copy"' }, ETag: '"put"' };
+      });
+
+    test('should copy a directory server side and report progress', async () => {
+      listing({
+        'src/': [{ Key: 'src/a.txt', Size: 3 }, { Key: 'src/nested/b.txt', Size: 5 }],
+        'dest/': [{ Key: 'dest/a.txt', Size: 3 }, { Key: 'dest/nested/b.txt', Size: 5 }]
+      });
+      const progress = vi.fn();
+
+      const result = await s3FileSystem.copyDir('src', 'dest', { onProgress: progress });
+
+      expect(result).toEqual({ copied: ['dest/a.txt', 'dest/nested/b.txt'], bytes: 8, mode: 'server-side' });
+      expect(CopyObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: 'dest/nested/b.txt', CopySource: 'test-bucket/src/nested/b.txt' })
+      );
+      expect(progress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ filesDone: 2, filesTotal: 2, bytesDone: 8, bytesTotal: 8 })
+      );
+    });
+
+    test('should not delete the source when verification fails', async () => {
+      listing({
+        'src/': [{ Key: 'src/a.txt', Size: 3 }],
+        'dest/': []
+      });
+
+      await expect(s3FileSystem.moveDir('src', 'dest')).rejects.toThrow('Verification failed');
+      expect(DeleteObjectsCommand).not.toHaveBeenCalled();
+    });
+
+    test('should delete the source after a verified move', async () => {
+      listing({
+        'src/': [{ Key: 'src/a.txt', Size: 3 }],
+        'dest/': [{ Key: 'dest/a.txt', Size: 3 }]
+      });
+
+      const result = await s3FileSystem.moveDir('src', 'dest');
+
+      expect(result.deleted?.deleted).toEqual(['src/a.txt']);
+    });
+
+    test('should only delete the source objects that were copied', async () => {
+      const sourceListings = [[{ Key: 'src/a.txt', Size: 3 }], [{ Key: 'src/a.txt', Size: 3 }, { Key: 'src/new.txt', Size: 4 }]];
+      mockSend.mockImplementation(async (command) => {
+        if (command instanceof ListObjectsV2Command) {
+          const prefix = vi.mocked(ListObjectsV2Command).mock.lastCall?.[0]?.Prefix;
+          return { Contents: prefix === 'src/' ? sourceListings.shift() : [{ Key: 'dest/a.txt', Size: 3 }] };
+        }
+        return { CopyObjectResult: { ETag: '"copy"' } };
+      });
+
+      const result = await s3FileSystem.moveDir('src', 'dest');
+
+      expect(result.deleted?.deleted).toEqual(['src/a.txt']);
+      expect(vi.mocked(DeleteObjectsCommand).mock.calls.flatMap(([input]) => input.Delete?.Objects?.map((object) => object.Key))).toEqual([
+        'src/a.txt'
+      ]);
+    });
+
+    test('should stream between instances with different credentials', async () => {
+      const other = new S3FileSystem({
+        region: 'eu-west-1',
+        bucket: 'other-bucket',
+        accessKeyId: 'other-key',
+        secretAccessKey: 'other-secret'
+      });
+      listing({
+        'src/': [{ Key: 'src/a.txt', Size: 8 }],
+        'dest/': [{ Key: 'dest/a.txt', Size: 8 }]
+      });
+
+      const result = await s3FileSystem.copyDir('src', 'dest', { target: other });
+
+      expect(result.mode).toBe('stream');
+      expect(CopyObjectCommand).not.toHaveBeenCalled();
+      expect(PutObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Bucket: 'other-bucket', Key: 'dest/a.txt', Body: Buffer.from('streamed') })
+      );
+    });
+
+    test('should only assume server-side copies for identical explicit credentials', async () => {
+      const defaultChain = (bucket: string) => new S3FileSystem({ region: 'us-east-1', bucket });
+      const explicit = (bucket: string) =>
+        new S3FileSystem({ region: 'us-east-1', bucket, accessKeyId: 'test-key', secretAccessKey: 'test-secret' });
+      listing({
+        'src/': [{ Key: 'src/a.txt', Size: 8 }],
+        'dest/': [{ Key: 'dest/a.txt', Size: 8 }]
+      });
+
+      expect((await defaultChain('a').copyDir('src', 'dest', { target: defaultChain('b') })).mode).toBe('stream');
+      expect((await s3FileSystem.copyDir('src', 'dest', { target: explicit('b') })).mode).toBe('server-side');
+    });
+
+    test('should refuse to copy a directory into itself', async () => {
+      await expect(s3FileSystem.copyDir('src', 'src/backup')).rejects.toThrow('into itself');
+    });
+  });
+
+  describe('streaming', () => {
+    const collect = async (stream: Readable): Promise<Buffer> => {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stream) {
+        chunks.push(Buffer.from(chunk));
+      }
+      return Buffer.concat(chunks);
+    };
+
+    test('should stream object body through createReadStream', async () => {
+      mockSend.mockResolvedValueOnce({
+        Body: Readable.from([Buffer.from('chunk-1 '), Buffer.from('chunk-2')]),
+        ContentLength: 15,
+        LastModified: new Date(),
+        ETag: '"stream-etag"'
+      });
+
+      const content = await collect(s3FileSystem.createReadStream('export.csv'));
+
+      expect(content.toString()).toBe('chunk-1 chunk-2');
+    });
+
+    test('should release the object body when the consumer stops early', async () => {
+      const body = new PassThrough();
+      body.write('header');
+      mockSend.mockResolvedValueOnce({ Body: body, ContentLength: 1024, ETag: '"e"' });
+
+      for await (const chunk of s3FileSystem.createReadStream('large.bin')) {
+        expect(chunk.toString()).toBe('header');
+        break;
+      }
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(body.destroyed).toBe(true);
+    });
+
+    test('should release the object body when the stream is destroyed before the response', async () => {
+      const body = new PassThrough();
+      let respond: (response: unknown) => void = () => undefined;
+      mockSend.mockReturnValueOnce(new Promise((resolve) => (respond = resolve)));
+
+      const stream = s3FileSystem.createReadStream('large.bin');
+      stream.destroy();
+      await new Promise((resolve) => stream.once('close', resolve));
+      respond({ Body: body, ContentLength: 1024, ETag: '"e"' });
+
+      await new Promise((resolve) => setImmediate(resolve));
+      expect(body.destroyed).toBe(true);
+    });
+
+    test('should surface missing objects as stream errors', async () => {
+      const notFoundError = new Error('NoSuchKey');
+      (notFoundError as Error & { name: string }).name = 'NoSuchKey';
+      mockSend.mockRejectedValueOnce(notFoundError);
+
+      await expect(collect(s3FileSystem.createReadStream('missing.csv')))
+        .rejects.toThrow('File not found: missing.csv');
+    });
+
+    test('should send small write streams as a single PutObject', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"put-etag"' });
+
+      const stream = s3FileSystem.createWriteStream('small.txt');
+      stream.end('tiny payload');
+      await new Promise((resolve) => stream.on('finish', resolve));
+
+      expect(PutObjectCommand).toHaveBeenCalledTimes(1);
+      expect(CreateMultipartUploadCommand).not.toHaveBeenCalled();
+      const stats = await s3FileSystem.stat('small.txt');
+      expect(stats.size).toBe(12);
+    });
+
+    test('should upload large write streams in parts', async () => {
+      const partSize = 5 * 1024 * 1024;
+      mockSend.mockImplementation(async (command) => {
+        if (command instanceof CreateMultipartUploadCommand) {
+          return { UploadId: 'upload-1' };
+        }
+        if (command instanceof UploadPartCommand) {
+          return { ETag: '"part"' };
+        }
+        return { ETag: '"multipart-etag"' };
+      });
+
+      const stream = s3FileSystem.createWriteStream('big.bin', { partSize });
+      stream.write(Buffer.alloc(partSize));
+      stream.end(Buffer.alloc(1024));
+      await new Promise((resolve) => stream.on('finish', resolve));
+
+      expect(UploadPartCommand).toHaveBeenCalledTimes(2);
+      expect(CompleteMultipartUploadCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          UploadId: 'upload-1',
+          MultipartUpload: {
+            Parts: [
+              { PartNumber: 1, ETag: '"part"' },
+              { PartNumber: 2, ETag: '"part"' }
+            ]
+          }
+        })
+      );
+    });
+
+    test('should default write streams to the filesystem part size', async () => {
+      const partSize = 6 * 1024 * 1024;
+      const fs = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', partSize });
+      mockSend.mockImplementation(async (command) => {
+        if (command instanceof CreateMultipartUploadCommand) return { UploadId: 'upload-1' };
+        return { ETag: '"part"' };
+      });
+
+      await pipeline(Readable.from([Buffer.alloc(partSize)]), fs.createWriteStream('big.bin'));
+
+      expect(UploadPartCommand).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('directory operations', () => {
     test('should handle ensureDir as no-op', async () => {
       await expect(s3FileSystem.ensureDir('some/path')).resolves.not.toThrow();
+      expect(mockSend).not.toHaveBeenCalled();
+    });
+
+    test('should create a marker object in ensureDir when enabled', async () => {
+      const fsWithMarkers = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', directoryMarkers: true });
+      mockSend.mockResolvedValueOnce({ ETag: '"marker"' });
+
+      await fsWithMarkers.ensureDir('uploads/images');
+
+      expect(PutObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ Key: 'uploads/images/', Body: '' })
+      );
+    });
+
+    test('should stat a virtual directory through a prefix listing', async () => {
+      const notFoundError = Object.assign(new Error('NotFound'), { $metadata: { httpStatusCode: 404 } });
+      mockSend.mockRejectedValueOnce(notFoundError);
+      mockSend.mockResolvedValueOnce({ Contents: [{ Key: 'reports/2024/q1.pdf' }] });
+
+      const stats = await s3FileSystem.stat('reports');
+
+      expect(stats.isDirectory()).toBe(true);
+      expect(stats.isFile()).toBe(false);
+      expect(ListObjectsV2Command).toHaveBeenCalledWith(
+        expect.objectContaining({ Prefix: 'reports/', MaxKeys: 1 })
+      );
+    });
+
+    test('should stat an empty directory marker', async () => {
+      const markerDate = new Date('2024-01-01T00:00:00Z');
+      mockSend.mockResolvedValueOnce({ Contents: [{ Key: 'empty/', LastModified: markerDate }] });
+
+      const stats = await s3FileSystem.stat('empty/');
+
+      expect(stats.isDirectory()).toBe(true);
+      expect(stats.mtime).toEqual(markerDate);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    test('should skip the directory marker in readDir', async () => {
+      mockSend.mockResolvedValueOnce({
+        Contents: [{ Key: 'photos/' }, { Key: 'photos/a.jpg' }],
+        CommonPrefixes: [{ Prefix: 'photos/empty/' }]
+      });
+
+      expect(await s3FileSystem.readDir('photos')).toEqual(['a.jpg', 'empty/']);
     });
 
     test.skip('should list directory contents', async () => {
@@ -136,6 +1259,163 @@ describe('S3FileSystem (Async)', () => {
     });
   });
 
+  describe('paginated listing', () => {
+    test('should follow continuation tokens in readDir', async () => {
+      mockSend.mockResolvedValueOnce({
+        Contents: [{ Key: 'docs/a.txt' }],
+        CommonPrefixes: [{ Prefix: 'docs/sub/' }],
+        IsTruncated: true,
+        NextContinuationToken: 'page-2'
+      });
+      mockSend.mockResolvedValueOnce({
+        Contents: [{ Key: 'docs/b.txt' }],
+        IsTruncated: false
+      });
+
+      const entries = await s3FileSystem.readDir('docs');
+
+      expect(entries).toEqual(['a.txt', 'sub/', 'b.txt']);
+      expect(ListObjectsV2Command).toHaveBeenLastCalledWith(
+        expect.objectContaining({ Prefix: 'docs/', Delimiter: '/', ContinuationToken: 'page-2' })
+      );
+    });
+
+    test('should delete objects from every page in deleteDir', async () => {
+      mockSend.mockImplementation(async (command) => {
+        if (command instanceof ListObjectsV2Command) {
+          const call = vi.mocked(ListObjectsV2Command).mock.calls.length;
+          return call === 1
+            ? { Contents: [{ Key: 'tmp/1' }, { Key: 'tmp/2' }], IsTruncated: true, NextContinuationToken: 't' }
+            : { Contents: [{ Key: 'tmp/3' }], IsTruncated: false };
+        }
+        return {};
+      });
+
+      const result = await s3FileSystem.deleteDir('tmp');
+
+      expect(result.deleted).toEqual(['tmp/1', 'tmp/2', 'tmp/3']);
+      expect(DeleteObjectsCommand).toHaveBeenCalledTimes(2);
+    });
+
+    test('should lazily yield entries from listObjects', async () => {
+      const fsWithPrefix = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', prefix: 'app' });
+      mockSend.mockResolvedValueOnce({
+        Contents: [{ Key: 'app/logs/1.log', Size: 10, ETag: '"e1"', LastModified: new Date(0) }],
+        IsTruncated: true,
+        NextContinuationToken: 'next'
+      });
+      mockSend.mockResolvedValueOnce({
+        Contents: [{ Key: 'app/logs/deep/2.log', Size: 20, ETag: '"e2"' }],
+        IsTruncated: false
+      });
+
+      const iterator = fsWithPrefix.listObjects('logs/', { recursive: true, pageSize: 1 });
+      const first = await iterator.next();
+
+      expect(first.value).toMatchObject({ key: 'app/logs/1.log', path: 'logs/1.log', size: 10, etag: '"e1"' });
+      expect(mockSend).toHaveBeenCalledTimes(1);
+
+      const rest = [];
+      for await (const entry of iterator) {
+        rest.push(entry.path);
+      }
+      expect(rest).toEqual(['logs/deep/2.log']);
+      expect(ListObjectsV2Command).toHaveBeenCalledWith(
+        expect.objectContaining({ Prefix: 'app/logs/', Delimiter: undefined, MaxKeys: 1 })
+      );
+    });
+  });
+
+  describe('walk and glob', () => {
+    test('should walk a prefix with a single listing and derive directories', async () => {
+      mockSend.mockResolvedValueOnce({
+        Contents: [
+          { Key: 'site/index.html', Size: 5 },
+          { Key: 'site/css/main.css', Size: 7 },
+          { Key: 'site/css/vendor/reset.css', Size: 3 }
+        ]
+      });
+
+      const entries = [];
+      for await (const entry of s3FileSystem.walk('site')) {
+        entries.push([entry.path, entry.stats.isDirectory(), entry.stats.size]);
+      }
+
+      expect(entries).toEqual([
+        ['site/index.html', false, 5],
+        ['site/css/', true, 0],
+        ['site/css/main.css', false, 7],
+        ['site/css/vendor/', true, 0],
+        ['site/css/vendor/reset.css', false, 3]
+      ]);
+      expect(mockSend).toHaveBeenCalledTimes(1);
+      expect(ListObjectsV2Command).toHaveBeenCalledWith(
+        expect.objectContaining({ Prefix: 'site/', Delimiter: undefined })
+      );
+    });
+
+    test('should list only the literal prefix of a glob pattern', async () => {
+      mockSend.mockResolvedValueOnce({
+        Contents: [
+          { Key: 'logs/2024-01.txt' },
+          { Key: 'logs/2024-02.log' },
+          { Key: 'logs/2024-archive/03.txt' }
+        ]
+      });
+
+      const matches = await s3FileSystem.glob('logs/2024-*.{txt,log}');
+
+      expect(matches).toEqual(['logs/2024-01.txt', 'logs/2024-02.log']);
+      expect(ListObjectsV2Command).toHaveBeenCalledWith(expect.objectContaining({ Prefix: 'logs/2024-' }));
+    });
+  });
+
+  describe('batch deletion', () => {
+    test('should send up to 1000 keys per DeleteObjects request', async () => {
+      mockSend.mockResolvedValueOnce({ Contents: [{ Key: 'data/a' }, { Key: 'data/b' }] });
+      mockSend.mockResolvedValueOnce({});
+
+      await s3FileSystem.deleteDir('data');
+
+      expect(DeleteObjectsCommand).toHaveBeenCalledWith({
+        Bucket: 'test-bucket',
+        Delete: { Objects: [{ Key: 'data/a' }, { Key: 'data/b' }], Quiet: true }
+      });
+    });
+
+    test('should report failed keys with their error codes', async () => {
+      mockSend.mockResolvedValueOnce({ Contents: [{ Key: 'data/a' }, { Key: 'data/b' }, { Key: 'data/c' }] });
+      mockSend.mockResolvedValueOnce({
+        Errors: [{ Key: 'data/b', Code: 'AccessDenied', Message: 'Access Denied' }]
+      });
+
+      const result = await s3FileSystem.deleteDir('data');
+
+      expect(result.deleted).toEqual(['data/a', 'data/c']);
+      expect(result.failed).toEqual([{ key: 'data/b', code: 'AccessDenied', message: 'Access Denied' }]);
+    });
+
+    test('should mark a whole batch as failed when the request fails', async () => {
+      const throttled = Object.assign(new Error('Slow down'), { name: 'SlowDown' });
+      mockSend.mockResolvedValueOnce({ Contents: [{ Key: 'data/a' }] });
+      mockSend.mockRejectedValueOnce(throttled);
+
+      const result = await s3FileSystem.deleteDir('data');
+
+      expect(result.deleted).toEqual([]);
+      expect(result.failed).toEqual([expect.objectContaining({ key: 'data/a', code: 'SlowDown' })]);
+    });
+
+    test('should clear directory contents but keep the directory key', async () => {
+      mockSend.mockResolvedValueOnce({ Contents: [{ Key: 'data/' }, { Key: 'data/a' }] });
+      mockSend.mockResolvedValueOnce({});
+
+      const result = await s3FileSystem.clear('data');
+
+      expect(result.deleted).toEqual(['data/a']);
+    });
+  });
+
   describe('caching behavior', () => {
     test('should cache file content after first read', async () => {
       const testContent = 'Cached content';
@@ -164,10 +1444,148 @@ describe('S3FileSystem (Async)', () => {
       expect(mockSend).toHaveBeenCalledTimes(1);
     });
 
+    test('should not let callers modify cached content', async () => {
+      mockSend.mockResolvedValueOnce({
+        Body: { transformToByteArray: vi.fn().mockResolvedValue(Buffer.from('abc')) },
+        ETag: '"e"'
+      });
+
+      (await s3FileSystem.readFileBuffer('data.bin')).fill(0);
+      (await s3FileSystem.readFileBuffer('data.bin')).fill(0);
+
+      expect((await s3FileSystem.readFileBuffer('data.bin')).toString()).toBe('abc');
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    test('should not let callers modify cached content through ranges', async () => {
+      mockSend.mockResolvedValueOnce({
+        Body: { transformToByteArray: vi.fn().mockResolvedValue(Buffer.from('hello world')) },
+        ETag: '"e"'
+      });
+
+      await s3FileSystem.readFile('a.txt');
+      (await s3FileSystem.readRange('a.txt', 0, 4)).data.fill('X');
+
+      expect(await s3FileSystem.readFile('a.txt')).toBe('hello world');
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    test('should still return content when the cache cannot be written', async () => {
+      const cacheStore = new MemoryCache();
+      vi.spyOn(cacheStore, 'set').mockRejectedValue(new Error('ENOSPC'));
+      const fs = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', cacheStore });
+      mockSend.mockResolvedValue({
+        Body: { transformToByteArray: vi.fn().mockResolvedValue(Buffer.from('abc')) },
+        ContentLength: 3,
+        ETag: '"e"'
+      });
+
+      await expect(fs.readFile('x')).resolves.toBe('abc');
+      await expect(fs.stat('y')).resolves.toMatchObject({ size: 3 });
+    });
+
     test('should clear cache', () => {
       s3FileSystem.clearCache();
       expect(() => s3FileSystem.clearCache()).not.toThrow();
     });
+
+    test('should leave waiting for and reporting store clears to clearCacheStore', async () => {
+      const cacheStore = new MemoryCache();
+      vi.spyOn(cacheStore, 'clear').mockRejectedValue(new Error('EACCES'));
+      const fs = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', cacheStore });
+
+      expect(() => fs.clearCache()).not.toThrow();
+      await expect(fs.clearCacheStore()).rejects.toThrow('EACCES');
+    });
+
+    test('should re-read from S3 when content caching is disabled', async () => {
+      const metadataOnly = new S3FileSystem({
+        region: 'us-east-1',
+        bucket: 'test-bucket',
+        cache: { cacheContent: false }
+      });
+      mockSend.mockImplementation(async () => ({
+        Body: { transformToString: vi.fn().mockResolvedValue('fresh') },
+        ContentLength: 5,
+        ETag: '"e"'
+      }));
+
+      await metadataOnly.readFile('file.txt');
+      await metadataOnly.readFile('file.txt');
+
+      expect(mockSend).toHaveBeenCalledTimes(2);
+      expect(metadataOnly.getCacheStats()).toMatchObject({ hits: 1, misses: 1, bytes: 0 });
+    });
+
+    test('should store entries in a custom cache store keyed by bucket', async () => {
+      const store = new MemoryCache();
+      const fs = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', cacheStore: store });
+      mockSend.mockResolvedValueOnce({ ETag: '"e"' });
+
+      await fs.writeFile('file.txt', 'stored');
+
+      expect((await store.peek('test-bucket/file.txt'))?.content?.toString()).toBe('stored');
+    });
+  });
+
+  describe('cache coherence', () => {
+    const notModified = Object.assign(new Error('Not Modified'), { name: 'NotModified', $metadata: { httpStatusCode: 304 } });
+    const notFound = Object.assign(new Error('Not Found'), { name: 'NotFound', $metadata: { httpStatusCode: 404 } });
+    const objectResponse = (content: string, etag: string) => ({
+      Body: { transformToString: vi.fn().mockResolvedValue(content) },
+      ContentLength: content.length,
+      ETag: etag
+    });
+    const createFileSystem = (coherence: 'ttl' | 'always-revalidate') =>
+      new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', coherence, revalidateAfter: 1000 });
+
+    test('should reuse cached content when revalidation returns 304', async () => {
+      const fs = createFileSystem('always-revalidate');
+      mockSend.mockResolvedValueOnce(objectResponse('v1', '"v1"')).mockRejectedValueOnce(notModified);
+
+      await fs.readFile('doc.txt');
+      const content = await fs.readFile('doc.txt');
+
+      expect(content).toBe('v1');
+      expect(GetObjectCommand).toHaveBeenLastCalledWith({ Bucket: 'test-bucket', Key: 'doc.txt', IfNoneMatch: '"v1"' });
+    });
+
+    test('should pick up content changed by another writer', async () => {
+      const fs = createFileSystem('always-revalidate');
+      mockSend.mockResolvedValueOnce(objectResponse('v1', '"v1"')).mockResolvedValueOnce(objectResponse('v2', '"v2"'));
+
+      await fs.readFile('doc.txt');
+
+      expect(await fs.readFile('doc.txt')).toBe('v2');
+    });
+
+    test('should evict entries for objects deleted elsewhere', async () => {
+      const fs = createFileSystem('always-revalidate');
+      mockSend.mockResolvedValueOnce({ ContentLength: 2, ETag: '"v1"' }).mockRejectedValueOnce(notFound);
+
+      expect(await fs.exists('doc.txt')).toBe(true);
+      expect(await fs.exists('doc.txt')).toBe(false);
+      expect(HeadObjectCommand).toHaveBeenLastCalledWith({ Bucket: 'test-bucket', Key: 'doc.txt', IfNoneMatch: '"v1"', ChecksumMode: 'ENABLED' });
+      expect(fs.getCacheStats().entries).toBe(0);
+    });
+
+    test('should only revalidate entries older than revalidateAfter in ttl mode', async () => {
+      vi.useFakeTimers();
+      try {
+        const fs = createFileSystem('ttl');
+        mockSend.mockResolvedValueOnce(objectResponse('v1', '"v1"')).mockRejectedValueOnce(notModified);
+
+        await fs.readFile('doc.txt');
+        await fs.readFile('doc.txt');
+        expect(mockSend).toHaveBeenCalledTimes(1);
+
+        vi.advanceTimersByTime(1000);
+        expect(await fs.readFile('doc.txt')).toBe('v1');
+        expect(mockSend).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
   });
 
   describe('configuration and metadata', () => {
@@ -228,6 +1646,8 @@ describe('S3FileSystem (Async)', () => {
       const notFoundError = new Error('NoSuchKey');
       (notFoundError as Error & { name: string }).name = 'NoSuchKey';
       mockSend.mockRejectedValueOnce(notFoundError);
+      // No objects under the path either, so it is not a directory
+      mockSend.mockResolvedValueOnce({ Contents: [] });
 
       await expect(s3FileSystem.stat('non-existent-stats.txt'))
         .rejects.toThrow('File not found: non-existent-stats.txt');
@@ -250,6 +1670,116 @@ describe('S3FileSystem (Async)', () => {
       expect(stats2.size).toBe(2048);
       expect(mockSend).toHaveBeenCalledTimes(1); // Only one S3 call
     });
+
+    test('should report S3 object details', async () => {
+      mockSend.mockResolvedValueOnce({
+        ContentLength: 10,
+        LastModified: new Date(),
+        ETag: '"abc"',
+        ContentType: 'text/csv',
+        StorageClass: 'STANDARD_IA',
+        VersionId: 'v7',
+        Metadata: { source: 'etl' },
+        ServerSideEncryption: 'aws:kms',
+        SSEKMSKeyId: 'arn:aws:kms:us-east-1:123:key/k',
+        BucketKeyEnabled: true,
+        ChecksumCRC32: 'AAAAAA==',
+        ChecksumType: 'FULL_OBJECT'
+      });
+
+      const stats = await s3FileSystem.stat('report.csv');
+
+      expect(HeadObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ ChecksumMode: 'ENABLED' }));
+      expect(stats).toMatchObject({
+        size: 10,
+        etag: '"abc"',
+        contentType: 'text/csv',
+        storageClass: 'STANDARD_IA',
+        versionId: 'v7',
+        metadata: { source: 'etl' },
+        encryption: { algorithm: 'aws:kms', kmsKeyId: 'arn:aws:kms:us-east-1:123:key/k', bucketKeyEnabled: true },
+        checksum: { algorithm: 'CRC32', value: 'AAAAAA==', type: 'FULL_OBJECT' }
+      });
+    });
+
+    test('should serve details recorded by a write from the cache', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"w"', VersionId: 'v1', ServerSideEncryption: 'AES256' });
+      await s3FileSystem.writeFile('notes.md', '# hi', { metadata: { author: 'sam' } });
+
+      const stats = await s3FileSystem.stat('notes.md');
+
+      expect(stats).toMatchObject({
+        etag: '"w"',
+        contentType: 'text/markdown',
+        storageClass: 'STANDARD',
+        versionId: 'v1',
+        metadata: { author: 'sam' },
+        encryption: { algorithm: 'AES256' }
+      });
+      expect(mockSend).toHaveBeenCalledTimes(1);
+    });
+
+    test('should fetch details for cached entries that lack them', async () => {
+      mockSend
+        .mockResolvedValueOnce({ ETag: '"m"' })
+        .mockResolvedValueOnce({ CopyObjectResult: { ETag: '"m"' } })
+        .mockResolvedValueOnce({ ContentLength: 3, LastModified: new Date(), ETag: '"m"', ContentType: 'video/mp4', Metadata: { take: '2' } });
+      await s3FileSystem.writeFile('clip.mp4', 'abc', { metadata: { take: '2' } });
+      // The source size is cached, so the copy is made without a HEAD
+      await s3FileSystem.copyFile('clip.mp4', 'backup/clip.mp4');
+
+      expect(await s3FileSystem.stat('backup/clip.mp4')).toMatchObject({ contentType: 'video/mp4', metadata: { take: '2' } });
+      expect(HeadObjectCommand).toHaveBeenCalledWith(expect.not.objectContaining({ IfNoneMatch: expect.anything() }));
+      expect(mockSend).toHaveBeenCalledTimes(3);
+      expect((await s3FileSystem.stat('backup/clip.mp4')).contentType).toBe('video/mp4');
+      expect(mockSend).toHaveBeenCalledTimes(3);
+    });
+
+    test('should report the headers of copies and streamed uploads from the cache', async () => {
+      mockSend
+        .mockResolvedValueOnce({ ContentLength: 3, ContentType: 'text/csv', Metadata: { source: 'etl' } })
+        .mockResolvedValueOnce({ CopyObjectResult: { ETag: '"t"' } })
+        .mockResolvedValueOnce({ ETag: '"s"' });
+
+      await s3FileSystem.transition('f.csv', 'GLACIER');
+      await pipeline(Readable.from([Buffer.from('abc')]), s3FileSystem.createWriteStream('clip.mp4'));
+
+      expect(await s3FileSystem.stat('f.csv')).toMatchObject({
+        storageClass: 'GLACIER',
+        contentType: 'text/csv',
+        metadata: { source: 'etl' }
+      });
+      expect(await s3FileSystem.stat('clip.mp4')).toMatchObject({ storageClass: 'STANDARD', contentType: 'video/mp4' });
+      expect(mockSend).toHaveBeenCalledTimes(3);
+    });
+
+    test('should collect stats for many paths with one listing per directory', async () => {
+      const lastModified = new Date('2024-01-01T00:00:00Z');
+      mockSend.mockImplementation(async () => {
+        const { Prefix } = vi.mocked(ListObjectsV2Command).mock.calls.at(-1)![0];
+        if (Prefix === 'logs/2024-0') {
+          return {
+            Contents: [
+              { Key: 'logs/2024-01.txt', Size: 5, LastModified: lastModified, ETag: '"a"', StorageClass: 'GLACIER' },
+              { Key: 'logs/2024-02.txt', Size: 7, LastModified: lastModified, ETag: '"b"', ChecksumAlgorithm: ['CRC32C'] }
+            ],
+            CommonPrefixes: [{ Prefix: 'logs/2024-03/' }]
+          };
+        }
+        return { Contents: [], CommonPrefixes: [] };
+      });
+
+      const stats = await s3FileSystem.statMany(['logs/2024-01.txt', '/logs/2024-02.txt', 'logs/2024-03', 'logs/2024-04.txt', 'top.txt']);
+
+      expect(ListObjectsV2Command).toHaveBeenCalledTimes(2);
+      expect(ListObjectsV2Command).toHaveBeenCalledWith(expect.objectContaining({ Prefix: 'logs/2024-0', Delimiter: '/' }));
+      expect(ListObjectsV2Command).toHaveBeenCalledWith(expect.objectContaining({ Prefix: 'top.txt', Delimiter: '/' }));
+      expect(HeadObjectCommand).not.toHaveBeenCalled();
+      expect([...stats.keys()]).toEqual(['logs/2024-01.txt', '/logs/2024-02.txt', 'logs/2024-03']);
+      expect(stats.get('logs/2024-01.txt')).toMatchObject({ size: 5, etag: '"a"', storageClass: 'GLACIER', mtime: lastModified });
+      expect(stats.get('/logs/2024-02.txt')).toMatchObject({ storageClass: 'STANDARD', checksum: { algorithm: 'CRC32C' } });
+      expect(stats.get('logs/2024-03')?.isDirectory()).toBe(true);
+    });
   });
 
   describe('edge cases', () => {
@@ -311,11 +1841,182 @@ describe('S3FileSystem (Async)', () => {
       // SKIPPED: Mock call structure issues - putObjectCall.input is undefined
       // Content type logic is correct (defaults to application/octet-stream)
     });
+
+    test('should look up common web asset types', async () => {
+      mockSend.mockResolvedValue({ ETag: '"e"' });
+
+      await s3FileSystem.writeFile('assets/logo.SVG', '<svg/>');
+      await s3FileSystem.writeFile('data.v2/export.csv', 'a,b');
+      await s3FileSystem.writeFile('app.wasm', '');
+
+      const types = vi.mocked(PutObjectCommand).mock.calls.map(([input]) => input.ContentType);
+      expect(types).toEqual(['image/svg+xml', 'text/csv', 'application/wasm']);
+    });
+
+    test('should use registered mappings and bucket-wide defaults', async () => {
+      const fs = new S3FileSystem({
+        region: 'us-east-1',
+        bucket: 'test-bucket',
+        contentTypes: { '.gltf': 'model/gltf+json' },
+        defaultHeaders: { cacheControl: 'public, max-age=300', contentType: 'text/plain' }
+      });
+      fs.registerContentType('USDZ', 'model/vnd.usdz+zip');
+      mockSend.mockResolvedValue({ ETag: '"e"' });
+
+      await fs.writeFile('scene.gltf', '{}');
+      await fs.writeFile('scene.usdz', '');
+      await fs.writeFile('README', 'hi');
+
+      expect(vi.mocked(PutObjectCommand).mock.calls.map(([input]) => [input.ContentType, input.CacheControl])).toEqual([
+        ['model/gltf+json', 'public, max-age=300'],
+        ['model/vnd.usdz+zip', 'public, max-age=300'],
+        ['text/plain', 'public, max-age=300']
+      ]);
+    });
+
+    test('should apply per-call header overrides', async () => {
+      const expires = new Date('2030-01-01T00:00:00Z');
+      mockSend.mockResolvedValueOnce({ ETag: '"e"' });
+
+      await s3FileSystem.writeFileBuffer('dist/app.js.gz', Buffer.alloc(4), {
+        contentType: 'application/javascript',
+        contentEncoding: 'gzip',
+        cacheControl: 'public, max-age=31536000, immutable',
+        contentDisposition: 'inline',
+        contentLanguage: 'en',
+        expires
+      });
+
+      expect(PutObjectCommand).toHaveBeenCalledWith(
+        expect.objectContaining({
+          ContentType: 'application/javascript',
+          ContentEncoding: 'gzip',
+          CacheControl: 'public, max-age=31536000, immutable',
+          ContentDisposition: 'inline',
+          ContentLanguage: 'en',
+          Expires: expires
+        })
+      );
+    });
+
+    test('should send headers with streamed uploads', async () => {
+      mockSend.mockResolvedValueOnce({ ETag: '"e"' });
+
+      await pipeline(Readable.from([Buffer.from('body')]), s3FileSystem.createWriteStream('page.html', { cacheControl: 'no-store' }));
+
+      expect(PutObjectCommand).toHaveBeenCalledWith(expect.objectContaining({ ContentType: 'text/html', CacheControl: 'no-store' }));
+    });
   });
 
   describe('chmod operations', () => {
-    test('should handle chmod as no-op', async () => {
-      await expect(s3FileSystem.chmod('some/file', 0o755)).resolves.not.toThrow();
+    const head = { ContentLength: 1, LastModified: new Date(), ETag: '"e"' };
+
+    test('should map modes to canned ACLs', async () => {
+      mockSend.mockResolvedValue({});
+
+      await s3FileSystem.chmod('site/index.html', 0o755);
+      await s3FileSystem.chmod('shared/board.txt', 0o666);
+      await s3FileSystem.chmod('secrets.env', 0o600);
+
+      expect(vi.mocked(PutObjectAclCommand).mock.calls.map(([input]) => input.ACL)).toEqual([
+        'public-read',
+        'public-read-write',
+        'private'
+      ]);
+      expect(PutObjectAclCommand).toHaveBeenCalledWith({ Bucket: 'test-bucket', Key: 'site/index.html', ACL: 'public-read' });
+    });
+
+    test('should use a custom mapping', async () => {
+      const fs = new S3FileSystem({
+        region: 'us-east-1',
+        bucket: 'test-bucket',
+        aclMapping: {
+          toAcl: (mode) => (mode & 0o040 ? 'authenticated-read' : 'private'),
+          toMode: (acl) => (acl === 'authenticated-read' ? 0o640 : 0o600)
+        }
+      });
+      mockSend.mockResolvedValueOnce({ ETag: '"e"' }).mockResolvedValueOnce({});
+
+      await fs.writeFile('team/plan.md', 'x');
+      await fs.chmod('team/plan.md', 0o640);
+
+      expect(PutObjectAclCommand).toHaveBeenCalledWith(expect.objectContaining({ ACL: 'authenticated-read' }));
+      expect((await fs.stat('team/plan.md')).mode).toBe(0o640);
+    });
+
+    test('should report the mode of the effective ACL in stat', async () => {
+      mockSend.mockResolvedValueOnce(head).mockResolvedValueOnce({});
+
+      // Unknown until set or read through this filesystem
+      expect((await s3FileSystem.stat('photo.jpg')).mode).toBe(0o600);
+
+      await s3FileSystem.chmod('photo.jpg', 0o644);
+      expect((await s3FileSystem.stat('photo.jpg')).mode).toBe(0o644);
+      expect(mockSend).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not widen access when a reported mode is applied again', async () => {
+      mockSend.mockResolvedValueOnce(head).mockResolvedValueOnce({});
+
+      await s3FileSystem.chmod('photo.jpg', (await s3FileSystem.stat('photo.jpg')).mode);
+
+      expect(PutObjectAclCommand).toHaveBeenCalledWith(expect.objectContaining({ ACL: 'private' }));
+    });
+
+    test('should assume the default ACL for objects with an unknown ACL', async () => {
+      const fs = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', defaultHeaders: { acl: 'public-read' } });
+      mockSend.mockResolvedValueOnce(head);
+
+      expect((await fs.stat('photo.jpg')).mode).toBe(0o644);
+    });
+
+    test('should keep a known ACL while the object is unchanged', async () => {
+      const fs = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', coherence: 'always-revalidate' });
+      mockSend.mockResolvedValueOnce({ ETag: '"e"' }).mockResolvedValueOnce(head).mockResolvedValueOnce({ ...head, ETag: '"f"' });
+
+      await fs.writeFile('logo.png', 'x', { acl: 'public-read' });
+      expect((await fs.stat('logo.png')).mode).toBe(0o644);
+      expect((await fs.stat('logo.png')).mode).toBe(0o600);
+    });
+
+    test('should send the per-write and default ACL', async () => {
+      const fs = new S3FileSystem({ region: 'us-east-1', bucket: 'test-bucket', defaultHeaders: { acl: 'public-read' } });
+      mockSend.mockResolvedValue({ ETag: '"e"' });
+
+      await fs.writeFile('public.txt', 'a');
+      await fs.writeFile('private.txt', 'b', { acl: 'private' });
+
+      expect(vi.mocked(PutObjectCommand).mock.calls.map(([input]) => input.ACL)).toEqual(['public-read', 'private']);
+      expect((await fs.stat('public.txt')).mode).toBe(0o644);
+      expect((await fs.stat('private.txt')).mode).toBe(0o600);
+    });
+
+    test('should read grants and recognise canned ACLs', async () => {
+      mockSend.mockResolvedValueOnce({
+        Owner: { ID: 'owner-id' },
+        Grants: [
+          { Grantee: { Type: 'CanonicalUser', ID: 'owner-id' }, Permission: 'FULL_CONTROL' },
+          { Grantee: { Type: 'Group', URI: 'http://acs.amazonaws.com/groups/global/AllUsers' }, Permission: 'READ' }
+        ]
+      });
+
+      const acl = await s3FileSystem.getAcl('photo.jpg');
+
+      expect(GetObjectAclCommand).toHaveBeenCalledWith({ Bucket: 'test-bucket', Key: 'photo.jpg' });
+      expect(acl).toEqual({
+        canned: 'public-read',
+        owner: 'owner-id',
+        grants: [
+          { grantee: 'owner-id', permission: 'FULL_CONTROL' },
+          { grantee: 'http://acs.amazonaws.com/groups/global/AllUsers', permission: 'READ' }
+        ]
+      });
+    });
+
+    test('should report missing files when setting an ACL', async () => {
+      mockSend.mockRejectedValueOnce(Object.assign(new Error('NoSuchKey'), { name: 'NoSuchKey' }));
+
+      await expect(s3FileSystem.setAcl('gone.txt', 'private')).rejects.toThrow('File not found: gone.txt');
     });
   });
 });
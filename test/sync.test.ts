@@ -0,0 +1,139 @@
+import { afterEach, beforeEach, describe, expect, test, vi } from 'vitest';
+import { mkdtemp, mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import { Readable } from 'node:stream';
+import {
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client
+} from '@aws-sdk/client-s3';
+import { S3FileSystem } from '../src/s3.js';
+
+describe('S3FileSystem sync', () => {
+  let localDir: string;
+  let s3fs: S3FileSystem;
+  let send: ReturnType<typeof vi.spyOn>;
+  let remoteObjects: { Key: string; Size: number; ETag?: string; LastModified?: Date }[];
+
+  beforeEach(async () => {
+    localDir = await mkdtemp(join(tmpdir(), 'fs-s3-sync-'));
+    remoteObjects = [];
+    s3fs = new S3FileSystem({ region: 'us-east-1', bucket: 'bucket' });
+    send = vi.spyOn(S3Client.prototype, 'send').mockImplementation((async (command: unknown) => {
+      if (command instanceof ListObjectsV2Command) return { Contents: remoteObjects };
+      if (command instanceof GetObjectCommand) return { Body: Readable.from([Buffer.from('remote!')]) };
+      if (command instanceof PutObjectCommand) return { ETag: '"new"' };
+      return {};
+    }) as never);
+  });
+
+  afterEach(async () => {
+    send.mockRestore();
+    await rm(localDir, { recursive: true, force: true });
+  });
+
+  const sentCommands = <T>(type: new (...args: never[]) => T): T[] =>
+    send.mock.calls.map(([command]) => command).filter((command): command is T => command instanceof type);
+
+  test('should plan uploads and deletions on a dry run without transferring', async () => {
+    await mkdir(join(localDir, 'nested'));
+    await writeFile(join(localDir, 'same.txt'), 'abc');
+    await writeFile(join(localDir, 'changed.txt'), 'abcdef');
+    await writeFile(join(localDir, 'nested', 'new.txt'), 'hello');
+    remoteObjects = [
+      { Key: 'site/same.txt', Size: 3 },
+      { Key: 'site/changed.txt', Size: 2 },
+      { Key: 'site/stale.txt', Size: 9 }
+    ];
+
+    const result = await s3fs.sync(localDir, 'site', { delete: true, dryRun: true });
+
+    expect(result.changes).toEqual(
+      expect.arrayContaining([
+        { action: 'upload', path: 'changed.txt', reason: 'size', size: 6 },
+        { action: 'upload', path: 'nested/new.txt', reason: 'missing', size: 5 },
+        { action: 'delete', path: 'stale.txt', reason: 'extraneous', size: 0 }
+      ])
+    );
+    expect(result.changes).toHaveLength(3);
+    expect(result).toMatchObject({ unchanged: 1, bytes: 11, dryRun: true });
+    expect(sentCommands(PutObjectCommand)).toHaveLength(0);
+    expect(sentCommands(DeleteObjectsCommand)).toHaveLength(0);
+  });
+
+  test('should upload differences and delete extraneous remote files', async () => {
+    await writeFile(join(localDir, 'new.txt'), 'hello');
+    remoteObjects = [{ Key: 'site/stale.txt', Size: 9 }];
+
+    await s3fs.sync(localDir, 'site', { delete: true });
+
+    const [put] = sentCommands(PutObjectCommand);
+    expect(put.input).toMatchObject({ Key: 'site/new.txt', Body: Buffer.from('hello') });
+    const [batch] = sentCommands(DeleteObjectsCommand);
+    expect(batch.input.Delete?.Objects).toEqual([{ Key: 'site/stale.txt' }]);
+  });
+
+  test('should compare by MD5 against single-part ETags', async () => {
+    await writeFile(join(localDir, 'same-size.txt'), 'abc');
+    await writeFile(join(localDir, 'multipart.bin'), 'xyz');
+    remoteObjects = [
+      // md5("abd") - same size, different content
+      { Key: 'site/same-size.txt', Size: 3, ETag: '"4911e516e5aa21d327512e0c8b197616"' },
+      { Key: 'site/multipart.bin', Size: 3, ETag: '"0123456789abcdef-2"' }
+    ];
+
+    const result = await s3fs.sync(localDir, 'site', { compare: 'etag', dryRun: true });
+
+    expect(result.changes).toEqual([{ action: 'upload', path: 'same-size.txt', reason: 'etag', size: 3 }]);
+  });
+
+  test('should download missing files into the local directory', async () => {
+    const lastModified = new Date('2024-05-01T00:00:00Z');
+    remoteObjects = [{ Key: 'site/docs/readme.md', Size: 7, LastModified: lastModified }];
+
+    const result = await s3fs.sync(localDir, 'site', { direction: 'download' });
+
+    expect(result.changes).toEqual([{ action: 'download', path: 'docs/readme.md', reason: 'missing', size: 7 }]);
+    expect(await readFile(join(localDir, 'docs', 'readme.md'), 'utf8')).toBe('remote!');
+  });
+
+  test('should skip keys that would resolve outside the local directory', async () => {
+    const outside = join(localDir, '..', `${basename(localDir)}-outside.txt`);
+    await writeFile(outside, 'keep');
+    remoteObjects = [
+      { Key: 'site/ok.txt', Size: 7 },
+      { Key: `site/../${basename(localDir)}-escape.txt`, Size: 7 },
+      { Key: 'site/a/../../..', Size: 7 }
+    ];
+
+    try {
+      const result = await s3fs.sync(localDir, 'site', { direction: 'download', delete: true });
+
+      expect(result.changes).toEqual([{ action: 'download', path: 'ok.txt', reason: 'missing', size: 7 }]);
+      expect(result.skipped).toEqual([`../${basename(localDir)}-escape.txt`, 'a/../../..']);
+      expect(await readFile(outside, 'utf8')).toBe('keep');
+      await expect(readFile(join(localDir, '..', `${basename(localDir)}-escape.txt`))).rejects.toThrow('ENOENT');
+    } finally {
+      await rm(outside, { force: true });
+    }
+  });
+
+  test('should leave the trash and lock objects out of a sync of the root', async () => {
+    await writeFile(join(localDir, 'a.txt'), 'abc');
+    remoteObjects = [
+      { Key: 'a.txt', Size: 3 },
+      { Key: '.trash/1700000000000/old.txt', Size: 3 },
+      { Key: '.locks/nightly.lock', Size: 0 },
+      { Key: 'stale.txt', Size: 9 }
+    ];
+
+    const result = await s3fs.sync(localDir, '', { delete: true });
+
+    expect(result.changes).toEqual([{ action: 'delete', path: 'stale.txt', reason: 'extraneous', size: 0 }]);
+    const [batch] = sentCommands(DeleteObjectsCommand);
+    expect(batch.input.Delete?.Objects).toEqual([{ Key: 'stale.txt' }]);
+  });
+});